@@ -1,5 +1,6 @@
 import React, { useCallback, useState, useRef, useEffect, useMemo } from 'react';
-import useSpreadsheetMapper from 'react-spreadsheet-mapper';
+import useSpreadsheetMapper, { getMappedColumns } from 'react-spreadsheet-mapper';
+import type { MappedResult, MappingOption, SpreadsheetData } from 'react-spreadsheet-mapper';
 import { MappedField } from './types';
 import {
   Container,
@@ -52,22 +53,13 @@ import {
 
 } from '@mui/icons-material';
 
-// Define types locally to match the hook's interface
-interface SpreadsheetData {
+// Shape of each imported record; option values are checked against its keys
+interface Contact {
   name: string;
-  columns: string[];
-  data: Record<string, unknown>[];
-  metrics?: {
-    fileSize: number;
-    processingTime: number;
-    rowCount: number;
-    memoryUsage?: number;
-  };
+  email: string;
+  phone?: string;
 }
 
-// Updated type for the final mapped data result
-type MappedResult = SpreadsheetData & { map: { field: string; value: string }[] };
-
 // Configuration interface
 interface AppConfig {
   headerRow: number;
@@ -570,13 +562,13 @@ const App: React.FC = () => {
   const [config, setConfig] = useState<AppConfig>(defaultConfig);
   const [configChanged, setConfigChanged] = useState(false);
 
-  const options = [
+  const options: MappingOption<Contact>[] = [
     { label: 'Name', value: 'name', required: true },
     { label: 'Email', value: 'email', required: true },
     { label: 'Phone', value: 'phone' },
   ];
 
-  const [mappedData, setMappedData] = useState<MappedResult | null>(null);
+  const [mappedData, setMappedData] = useState<MappedResult<Contact> | null>(null);
 
   // Announcement handler for accessibility
   const handleAnnouncement = useCallback((message: string, type: 'success' | 'error' | 'info' = 'info') => {
@@ -600,7 +592,7 @@ const App: React.FC = () => {
     handleAnnouncement('Configuration reset to defaults', 'info');
   }, [defaultConfig, handleAnnouncement]);
 
-  const onFinish = useCallback((data: MappedResult) => {
+  const onFinish = useCallback((data: MappedResult<Contact>) => {
     setMappedData(data);
     handleAnnouncement('Data mapping completed successfully. Results are now available.', 'success');
 
@@ -623,7 +615,7 @@ const App: React.FC = () => {
     handleFileFinish,
     reset: resetMapper,
     getPerformanceSummary,
-  } = useSpreadsheetMapper({ 
+  } = useSpreadsheetMapper<Contact>({ 
     options, 
     onFinish, 
     config,
@@ -653,9 +645,8 @@ const App: React.FC = () => {
 
   const getAvailableColumns = (file: SpreadsheetData, currentValue: string) => {
     // Only filter out columns that are mapped for THIS specific file
-    const mappedColumnsForThisFile = map
-      .filter((item: MappedField) => item.fileName === file.name)
-      .map((item: MappedField) => item.field);
+    // (columns combined into one option count as mapped too)
+    const mappedColumnsForThisFile = getMappedColumns(map.filter((item: MappedField) => item.fileName === file.name));
     return file.columns.filter((column: string) => !mappedColumnsForThisFile.includes(column) || column === currentValue);
   };
 
@@ -1,5 +1,6 @@
 import React, { useCallback, useState, useRef } from 'react';
-import useSpreadsheetMapper from 'react-spreadsheet-mapper';
+import useSpreadsheetMapper, { getMappedColumns } from 'react-spreadsheet-mapper';
+import type { MappedResult, MappingOption, SpreadsheetData } from 'react-spreadsheet-mapper';
 import { MappedField } from './types';
 import {
   MantineProvider,
@@ -17,16 +18,13 @@ import {
 } from '@mantine/core';
 import '@mantine/core/styles.css';
 
-// Define types locally to match the hook's interface
-interface SpreadsheetData {
+// Shape of each imported record; option values are checked against its keys
+interface Contact {
   name: string;
-  columns: string[];
-  data: Record<string, unknown>[];
+  email: string;
+  phone?: string;
 }
 
-// Updated type for the final mapped data result
-type MappedResult = SpreadsheetData & { map: { field: string; value: string }[] };
-
 const App: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -38,15 +36,15 @@ const App: React.FC = () => {
     previewRowCount: 5,
   };
 
-  const options = [
+  const options: MappingOption<Contact>[] = [
     { label: 'Name', value: 'name', required: true },
     { label: 'Email', value: 'email', required: true },
     { label: 'Phone', value: 'phone' },
   ];
 
-  const [mappedData, setMappedData] = useState<MappedResult | null>(null);
+  const [mappedData, setMappedData] = useState<MappedResult<Contact> | null>(null);
 
-  const onFinish = useCallback((data: MappedResult) => {
+  const onFinish = useCallback((data: MappedResult<Contact>) => {
     setMappedData(data);
 
     // TODO: Add your server interaction here
@@ -64,7 +62,7 @@ const App: React.FC = () => {
     handleFiles,
     handleFileFinish,
     reset: resetMapper,
-  } = useSpreadsheetMapper({ options, onFinish, config });
+  } = useSpreadsheetMapper<Contact>({ options, onFinish, config });
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || []);
@@ -80,7 +78,8 @@ const App: React.FC = () => {
   };
 
   const getAvailableColumns = (file: SpreadsheetData, currentValue: string) => {
-    const mappedColumns = map.map((item: MappedField) => item.field);
+    // Columns combined into one option count as mapped too
+    const mappedColumns = getMappedColumns(map);
     return file.columns.filter((column: string) => !mappedColumns.includes(column) || column === currentValue);
   };
 
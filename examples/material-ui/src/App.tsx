@@ -1,5 +1,6 @@
 import React, { useCallback, useState, useRef } from 'react';
-import useSpreadsheetMapper from 'react-spreadsheet-mapper';
+import useSpreadsheetMapper, { getMappedColumns } from 'react-spreadsheet-mapper';
+import type { MappedResult, MappingOption, SpreadsheetData } from 'react-spreadsheet-mapper';
 import { MappedField } from './types';
 import {
   Typography,
@@ -19,16 +20,13 @@ import {
   Grid,
 } from '@mui/material';
 
-// Define types locally to match the hook's interface
-interface SpreadsheetData {
+// Shape of each imported record; option values are checked against its keys
+interface Contact {
   name: string;
-  columns: string[];
-  data: Record<string, unknown>[];
+  email: string;
+  phone?: string;
 }
 
-// Updated type for the final mapped data result
-type MappedResult = SpreadsheetData & { map: { field: string; value: string }[] };
-
 const App: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -40,15 +38,15 @@ const App: React.FC = () => {
     previewRowCount: 5,
   };
 
-  const options = [
+  const options: MappingOption<Contact>[] = [
     { label: 'Name', value: 'name', required: true },
     { label: 'Email', value: 'email', required: true },
     { label: 'Phone', value: 'phone' },
   ];
 
-  const [mappedData, setMappedData] = useState<MappedResult | null>(null);
+  const [mappedData, setMappedData] = useState<MappedResult<Contact> | null>(null);
 
-  const onFinish = useCallback((data: MappedResult) => {
+  const onFinish = useCallback((data: MappedResult<Contact>) => {
     setMappedData(data);
 
     // TODO: Add your server interaction here
@@ -66,7 +64,7 @@ const App: React.FC = () => {
     handleFiles,
     handleFileFinish,
     reset: resetMapper,
-  } = useSpreadsheetMapper({ options, onFinish, config });
+  } = useSpreadsheetMapper<Contact>({ options, onFinish, config });
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || []);
@@ -82,7 +80,8 @@ const App: React.FC = () => {
   };
 
   const getAvailableColumns = (file: SpreadsheetData, currentValue: string) => {
-    const mappedColumns = map.map((item: MappedField) => item.field);
+    // Columns combined into one option count as mapped too
+    const mappedColumns = getMappedColumns(map);
     return file.columns.filter((column: string) => !mappedColumns.includes(column) || column === currentValue);
   };
 
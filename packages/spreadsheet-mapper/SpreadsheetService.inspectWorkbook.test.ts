@@ -0,0 +1,92 @@
+import { inspectWorkbook, processSheets } from './SpreadsheetService';
+import * as XLSX from 'xlsx';
+import { describe, it, expect, vi } from 'vitest';
+
+const workbookFile = (sheets: Record<string, unknown[][]>, name = 'test.xlsx') => {
+  const workbook = XLSX.utils.book_new();
+  Object.entries(sheets).forEach(([sheetName, rows]) => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), sheetName);
+  });
+  const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+  return new File([buffer], name, {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  });
+};
+
+describe('inspectWorkbook', () => {
+  it('should list every sheet with its dimensions', async () => {
+    const file = workbookFile({
+      Customers: [['Name', 'Email', 'City'], ['John', 'john@example.com', 'Leeds'], ['Jane', 'jane@example.com', 'York']],
+      Notes: [['Exported 2024-01-01']]
+    });
+
+    const info = await inspectWorkbook(file);
+
+    expect(info.fileName).toBe('test.xlsx');
+    expect(info.sheets.map(({ name, index, rowCount, columnCount }) => ({ name, index, rowCount, columnCount }))).toEqual([
+      { name: 'Customers', index: 0, rowCount: 3, columnCount: 3 },
+      { name: 'Notes', index: 1, rowCount: 1, columnCount: 1 }
+    ]);
+  });
+
+  it('should only sample the first previewRowCount rows of each sheet', async () => {
+    const rows = [['Name'], ...Array.from({ length: 20 }, (_, i) => [`Person ${i}`])];
+    const file = workbookFile({ People: rows });
+
+    const info = await inspectWorkbook(file, { previewRowCount: 3 });
+
+    expect(info.sheets[0]?.rowCount).toBe(21);
+    expect(info.sheets[0]?.sampleRows).toEqual([['Name'], ['Person 0'], ['Person 1']]);
+  });
+
+  it('should include leading rows so a header row can be picked', async () => {
+    const file = workbookFile({
+      Report: [['Quarterly report', ''], ['', ''], ['Name', 'Total'], ['John', 10]]
+    });
+
+    const info = await inspectWorkbook(file);
+
+    expect(info.sheets[0]?.sampleRows).toEqual([
+      ['Quarterly report', ''],
+      ['', ''],
+      ['Name', 'Total'],
+      ['John', 10]
+    ]);
+  });
+
+  it('should report csv files as a single sheet', async () => {
+    const file = new File(['Name,Age\nJohn,25'], 'people.csv', { type: 'text/csv' });
+
+    const info = await inspectWorkbook(file);
+
+    expect(info.sheets).toHaveLength(1);
+    expect(info.sheets[0]?.sampleRows).toEqual([['Name', 'Age'], ['John', 25]]);
+  });
+
+  it('should reject files that fail validation', async () => {
+    const file = new File(['hello'], 'notes.txt', { type: 'text/plain' });
+
+    await expect(inspectWorkbook(file)).rejects.toThrow('File validation failed');
+  });
+});
+
+describe('processSheets', () => {
+  it('should shape each chosen sheet from the bytes read while inspecting', async () => {
+    const file = workbookFile({
+      Q1: [['Name', 'Total'], ['John', 10]],
+      Q2: [['Name', 'Total'], ['Jane', 20], ['Bob', 30]],
+      Notes: [['Draft']]
+    });
+    const readAsBinaryString = vi.spyOn(FileReader.prototype, 'readAsBinaryString');
+
+    await inspectWorkbook(file);
+    const sheets = await processSheets(file, ['Q2', 0]);
+
+    expect(readAsBinaryString).toHaveBeenCalledTimes(1);
+    expect(sheets.map(sheet => sheet.getAllRows?.())).toEqual([
+      [{ Name: 'Jane', Total: 20 }, { Name: 'Bob', Total: 30 }],
+      [{ Name: 'John', Total: 10 }]
+    ]);
+    readAsBinaryString.mockRestore();
+  });
+});
@@ -0,0 +1,230 @@
+import SpreadSheetService, { iterateRows } from './SpreadsheetService';
+import * as XLSX from 'xlsx';
+import { vi, describe, it, expect } from 'vitest';
+
+const collect = async (iterator: AsyncIterable<Record<string, unknown>[]>) => {
+  const batches: Record<string, unknown>[][] = [];
+  for await (const batch of iterator) {
+    batches.push(batch);
+  }
+  return batches;
+};
+
+const csvFile = (content: string, name = 'test.csv') => new File([content], name, { type: 'text/csv' });
+
+describe('iterateRows', () => {
+  describe('csv files', () => {
+    it('should yield shaped rows in batches', async () => {
+      const file = csvFile('Name,Age\nJohn,25\nJane,30\nBob,35\n');
+
+      const batches = await collect(iterateRows(file, { performance: { batchSize: 2 } }));
+
+      expect(batches).toEqual([
+        [{ Name: 'John', Age: 25 }, { Name: 'Jane', Age: 30 }],
+        [{ Name: 'Bob', Age: 35 }]
+      ]);
+    });
+
+    it('should detect the header row with headerRow: auto', async () => {
+      const file = csvFile('Stock report,,\nExported 2024-01-01,,\nItem,Qty,Price\nPen,2,1.5\nInk,1,3.2\n');
+
+      const batches = await collect(iterateRows(file, { headerRow: 'auto' }));
+
+      expect(batches.flat()).toEqual([
+        { Item: 'Pen', Qty: 2, Price: 1.5 },
+        { Item: 'Ink', Qty: 1, Price: 3.2 }
+      ]);
+    });
+
+    it('should type cells like SpreadSheetService', async () => {
+      const file = csvFile([
+        'Text,Number,Amount,Share,Joined,Slashed,Named,Flag,Lower,Code,Formula,Padded',
+        'Ann,42,"1,200",15%,2024-01-05,1/5/2024,5 Jan 2024,TRUE,true,="007",=SUM(A1),  ',
+        'Bob,-3.5,$(12),0.5%,2024-02-29,12/31/2023,Feb 2024,FALSE,no,00123,=,x'
+      ].join('\n'));
+
+      const processed = await SpreadSheetService(file);
+      const streamed = await collect(iterateRows(file));
+
+      expect(streamed.flat()).toEqual(processed.getAllRows?.());
+    });
+
+    it('should find the delimiter like SpreadSheetService', async () => {
+      const cases = [
+        { content: 'Name;Amount;Note\nAnn;1,5;"a;b"\nBob;2;x', columns: ['Name', 'Amount', 'Note'] },
+        { content: 'Name\tAge\tCity, Country\nAnn\t31\tLeeds, UK\nBob\t28\tParis, FR', columns: ['Name', 'Age', 'City, Country'] },
+        { content: 'sep=;\r\nName;Note\nAnn;a,b,c\nBob;d,e', columns: ['Name', 'Note'] }
+      ];
+
+      for (const { content, columns } of cases) {
+        const file = csvFile(content);
+        const processed = await SpreadSheetService(file);
+        const streamed = await collect(iterateRows(file, { performance: { chunkSize: 4 } }));
+
+        expect(processed.columns).toEqual(columns);
+        expect(streamed.flat()).toEqual(processed.getAllRows?.());
+      }
+    });
+
+    it('should parse rows that span chunk boundaries', async () => {
+      const file = csvFile('Name,Note\r\n"Doe, John","said ""hi"""\r\nJane,ok');
+
+      const batches = await collect(iterateRows(file, { performance: { chunkSize: 3 } }));
+
+      expect(batches.flat()).toEqual([
+        { Name: 'Doe, John', Note: 'said "hi"' },
+        { Name: 'Jane', Note: 'ok' }
+      ]);
+    });
+
+    it('should report bytes read as chunks stream in', async () => {
+      const file = csvFile('Name\nJohn\nJane');
+      const onProgress = vi.fn();
+
+      await collect(iterateRows(file, { performance: { chunkSize: 8, onProgress } }));
+
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        { phase: 'reading', loaded: 8, total: 14 },
+        { phase: 'reading', loaded: 14, total: 14 }
+      ]);
+    });
+
+    it('should honour headerRow and dataStartRow', async () => {
+      const file = csvFile('Report title\nName,Age\nSkip,0\nJohn,25\n');
+
+      const batches = await collect(iterateRows(file, { headerRow: 2, dataStartRow: 4 }));
+
+      expect(batches.flat()).toEqual([{ Name: 'John', Age: 25 }]);
+    });
+
+    it('should use letter columns when omitHeader is set', async () => {
+      const file = csvFile('John,25\nJane,30');
+
+      const batches = await collect(iterateRows(file, { omitHeader: true }));
+
+      expect(batches.flat()).toEqual([
+        { A: 'John', B: 25 },
+        { A: 'Jane', B: 30 }
+      ]);
+    });
+
+    it('should sanitize cell values unless disabled', async () => {
+      const content = 'Name\n<script>alert(1)</script>John\n';
+
+      const sanitized = await collect(iterateRows(csvFile(content)));
+      const raw = await collect(iterateRows(csvFile(content), { security: { sanitizeData: false } }));
+
+      expect(sanitized.flat()).toEqual([{ Name: 'John' }]);
+      expect(raw.flat()).toEqual([{ Name: '<script>alert(1)</script>John' }]);
+    });
+
+    it('should reject when headerRow is out of bounds', async () => {
+      const file = csvFile('Name,Age\nJohn,25\n');
+
+      await expect(collect(iterateRows(file, { headerRow: 5 }))).rejects.toThrow('Header row is out of bounds');
+    });
+
+    it('should reject files that fail validation', async () => {
+      const file = new File(['data'], 'test.txt', { type: 'text/plain' });
+
+      await expect(collect(iterateRows(file))).rejects.toThrow('File validation failed');
+    });
+  });
+
+  describe('workbook files', () => {
+    it('should walk the selected sheet row by row', async () => {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Ignored'], ['x']]), 'First');
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+        ['Name', 'Age'],
+        ['John', 25],
+        ['Jane']
+      ]), 'Second');
+      const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+      const file = new File([buffer], 'test.xlsx', {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      });
+
+      const batches = await collect(iterateRows(file, { sheet: 'Second' }));
+
+      expect(batches.flat()).toEqual([
+        { Name: 'John', Age: 25 },
+        { Name: 'Jane', Age: '' }
+      ]);
+    });
+
+    it('should number rows and columns from the used range like SpreadSheetService', async () => {
+      const workbook = XLSX.utils.book_new();
+      // The used range starts at B3; cells outside it are ignored
+      const sheet = XLSX.utils.aoa_to_sheet([
+        [],
+        [],
+        ['', 'Name', 'Email'],
+        ['', 'Ann', 'ann@example.com'],
+        ['', 'Bob', 'bob@example.com']
+      ]);
+      sheet['!ref'] = 'B3:C5';
+      XLSX.utils.book_append_sheet(workbook, sheet, 'Offset');
+      const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+      const file = new File([buffer], 'offset.xlsx', {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      });
+
+      for (const config of [{ headerRow: 1 }, { headerRow: 1, dataStartRow: 3 }]) {
+        const processed = await SpreadSheetService(file, config);
+        const streamed = await collect(iterateRows(file, config));
+
+        expect(processed.columns).toEqual(['Name', 'Email']);
+        expect(streamed.flat()).toEqual(processed.getAllRows?.());
+      }
+    });
+
+    it('should leave error cells empty like SpreadSheetService', async () => {
+      const workbook = XLSX.utils.book_new();
+      const sheet = XLSX.utils.aoa_to_sheet([
+        ['Name', 'Lookup'],
+        ['Ann', 'x'],
+        ['Bob', 7]
+      ]);
+      sheet['B2'] = { t: 'e', v: 42, w: '#N/A' };
+      XLSX.utils.book_append_sheet(workbook, sheet, 'Errors');
+      const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+      const file = new File([buffer], 'errors.xlsx', {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      });
+
+      const processed = await SpreadSheetService(file);
+      const streamed = await collect(iterateRows(file));
+
+      expect(streamed.flat()).toEqual([
+        { Name: 'Ann', Lookup: '' },
+        { Name: 'Bob', Lookup: 7 }
+      ]);
+      expect(streamed.flat()).toEqual(processed.getAllRows?.());
+    });
+
+    it('should stream rows under a merged header over several rows', async () => {
+      const workbook = XLSX.utils.book_new();
+      const sheet = XLSX.utils.aoa_to_sheet([
+        ['Name', 'Billing', ''],
+        ['', 'Street', 'City'],
+        ['John', '1 Main St', 'Leeds']
+      ]);
+      sheet['!merges'] = [
+        { s: { r: 0, c: 0 }, e: { r: 1, c: 0 } },
+        { s: { r: 0, c: 1 }, e: { r: 0, c: 2 } }
+      ];
+      XLSX.utils.book_append_sheet(workbook, sheet, 'Customers');
+      const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+      const file = new File([buffer], 'test.xlsx', {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      });
+
+      const batches = await collect(iterateRows(file, { headerRow: [1, 2] }));
+
+      expect(batches.flat()).toEqual([
+        { Name: 'John', 'Billing / Street': '1 Main St', 'Billing / City': 'Leeds' }
+      ]);
+    });
+  });
+});
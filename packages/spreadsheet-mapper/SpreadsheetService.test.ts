@@ -1,6 +1,8 @@
 import SpreadSheetService from './SpreadsheetService';
+import { handleParseRequest } from './spreadsheetWorker';
 import * as XLSX from 'xlsx';
-import { vi, describe, beforeEach, it, expect } from 'vitest';
+import { vi, describe, beforeEach, afterEach, it, expect } from 'vitest';
+import type { WorkerParseRequest } from './types';
 
 // Mock XLSX
 vi.mock('xlsx', () => ({
@@ -13,7 +15,10 @@ vi.mock('xlsx', () => ({
 // Mock FileReader
 interface MockFileReader {
   readAsBinaryString: ReturnType<typeof vi.fn>;
-  onload: ((event: { target: { result: string } }) => void) | null;
+  readAsArrayBuffer?: ReturnType<typeof vi.fn>;
+  abort: ReturnType<typeof vi.fn>;
+  onprogress?: ((event: { lengthComputable: boolean; loaded: number; total: number }) => void) | null;
+  onload: ((event: { target: { result: string | ArrayBuffer } }) => void) | null;
   onerror: ((error: Error) => void) | null;
   result: string | null;
 }
@@ -21,6 +26,7 @@ interface MockFileReader {
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 (global as any).FileReader = vi.fn().mockImplementation((): MockFileReader => ({
   readAsBinaryString: vi.fn(),
+  abort: vi.fn(),
   onload: null,
   onerror: null,
   result: null
@@ -34,6 +40,7 @@ describe('SpreadSheetService', () => {
     vi.clearAllMocks();
     mockFileReader = {
       readAsBinaryString: vi.fn(),
+      abort: vi.fn(),
       onload: null,
       onerror: null,
       result: 'mock-binary-data'
@@ -266,6 +273,193 @@ describe('SpreadSheetService', () => {
         { Name: 'Jane', Age: 30 }
       ]);
     });
+
+    it('should expose every row beyond the preview through getAllRows', async () => {
+      const mockWorkbook = {
+        SheetNames: ['Sheet1'],
+        Sheets: {
+          Sheet1: {}
+        }
+      };
+
+      const mockSheetData = [
+        ['Name', 'Age'],
+        ['John', 25],
+        ['Jane', 30],
+        ['Bob', 35],
+        ['<b>Alice</b>', 40]
+      ];
+
+      (XLSX.read as ReturnType<typeof vi.fn>).mockReturnValue(mockWorkbook);
+      (XLSX.utils.sheet_to_json as ReturnType<typeof vi.fn>).mockReturnValue(mockSheetData);
+
+      const promise = SpreadSheetService(mockFile, { previewRowCount: 1 });
+
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+
+      const result = await promise;
+
+      expect(result.data).toEqual([{ Name: 'John', Age: 25 }]);
+      expect(result.totalRows).toBe(4);
+      expect(result.getAllRows?.()).toEqual([
+        { Name: 'John', Age: 25 },
+        { Name: 'Jane', Age: 30 },
+        { Name: 'Bob', Age: 35 },
+        { Name: 'Alice', Age: 40 }
+      ]);
+    });
+  });
+
+  describe('header rows', () => {
+    const mockWorkbook = {
+      SheetNames: ['Sheet1'],
+      Sheets: {
+        Sheet1: {}
+      }
+    };
+
+    const mockSheetData = [
+      ['Sales export', ''],
+      ['<b>Generated</b> 2024-01-01', ''],
+      ['Name', 'Total'],
+      ['John', 10],
+      ['Jane', 20]
+    ];
+
+    beforeEach(() => {
+      (XLSX.read as ReturnType<typeof vi.fn>).mockReturnValue(mockWorkbook);
+      (XLSX.utils.sheet_to_json as ReturnType<typeof vi.fn>).mockReturnValue(mockSheetData);
+    });
+
+    it('should report the header row and keep the first raw rows', async () => {
+      const promise = SpreadSheetService(mockFile, { rawRowCount: 3 });
+
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+
+      const result = await promise;
+
+      expect(result.headerRow).toBe(1);
+      expect(result.rawRows).toEqual([
+        ['Sales export', ''],
+        ['Generated 2024-01-01', ''],
+        ['Name', 'Total']
+      ]);
+    });
+
+    it('should re-derive columns and rows from another header row without reading the file again', async () => {
+      const promise = SpreadSheetService(mockFile);
+
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+
+      const result = await promise;
+      const reshaped = result.withHeaderRow?.(3);
+
+      expect(XLSX.read).toHaveBeenCalledTimes(1);
+      expect(reshaped?.headerRow).toBe(3);
+      expect(reshaped?.columns).toEqual(['Name', 'Total']);
+      expect(reshaped?.data).toEqual([{ Name: 'John', Total: 10 }, { Name: 'Jane', Total: 20 }]);
+      expect(reshaped?.totalRows).toBe(2);
+      expect(reshaped?.getAllRows?.()).toHaveLength(2);
+      expect(reshaped?.rawRows).toEqual(result.rawRows);
+    });
+
+    it('should accept a first data row with the new header row', async () => {
+      const promise = SpreadSheetService(mockFile);
+
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+
+      const result = await promise;
+
+      expect(result.withHeaderRow?.(3, 5).data).toEqual([{ Name: 'Jane', Total: 20 }]);
+    });
+
+    it('should throw when the new header row is out of bounds', async () => {
+      const promise = SpreadSheetService(mockFile);
+
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+
+      const result = await promise;
+
+      expect(() => result.withHeaderRow?.(9)).toThrow('Header row is out of bounds');
+    });
+
+    it('should detect the header row with headerRow: auto', async () => {
+      (XLSX.utils.sheet_to_json as ReturnType<typeof vi.fn>).mockReturnValue([
+        ['Sales export', '', ''],
+        ['Region', 'Units', 'Revenue'],
+        ['North', 120, 5400],
+        ['South', 80, 3100]
+      ]);
+
+      const promise = SpreadSheetService(mockFile, { headerRow: 'auto' });
+
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+
+      const result = await promise;
+
+      expect(result.headerRow).toBe(2);
+      expect(result.headerConfidence).toBeGreaterThan(0.9);
+      expect(result.columns).toEqual(['Region', 'Units', 'Revenue']);
+      expect(result.data).toEqual([
+        { Region: 'North', Units: 120, Revenue: 5400 },
+        { Region: 'South', Units: 80, Revenue: 3100 }
+      ]);
+    });
+
+    it('should only report a confidence for detected header rows', async () => {
+      const promise = SpreadSheetService(mockFile, { headerRow: 'auto' });
+
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+
+      const result = await promise;
+
+      expect(result.headerConfidence).toBeDefined();
+      expect(result.withHeaderRow?.(3).headerConfidence).toBeUndefined();
+    });
+
+    it('should combine a header over several rows and resolve merged cells', async () => {
+      (XLSX.read as ReturnType<typeof vi.fn>).mockReturnValue({
+        SheetNames: ['Sheet1'],
+        Sheets: {
+          Sheet1: { '!merges': [{ s: { r: 0, c: 1 }, e: { r: 0, c: 2 } }] }
+        }
+      });
+      (XLSX.utils.sheet_to_json as ReturnType<typeof vi.fn>).mockReturnValue([
+        ['Name', 'Billing', ''],
+        ['', 'Street', 'City'],
+        ['John', '1 Main St', 'Leeds']
+      ]);
+
+      const promise = SpreadSheetService(mockFile, { headerRow: [1, 2] });
+
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+
+      const result = await promise;
+
+      expect(result.headerRow).toEqual([1, 2]);
+      expect(result.columns).toEqual(['Name', 'Billing / Street', 'Billing / City']);
+      expect(result.data).toEqual([{ Name: 'John', 'Billing / Street': '1 Main St', 'Billing / City': 'Leeds' }]);
+      expect(result.withHeaderRow?.(2).columns).toEqual(['', 'Street', 'City']);
+    });
+
+    it('should reject a header range that ends before it starts', async () => {
+      const promise = SpreadSheetService(mockFile, { headerRow: [3, 1] });
+
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+
+      await expect(promise).rejects.toThrow('Header row range is invalid');
+    });
+
+    it('should not report a header row with omitHeader', async () => {
+      const promise = SpreadSheetService(mockFile, { omitHeader: true });
+
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+
+      const result = await promise;
+
+      expect(result.headerRow).toBeUndefined();
+      expect(result.withHeaderRow?.(3).columns).toEqual(['Name', 'Total']);
+    });
   });
 
   describe('error handling', () => {
@@ -375,6 +569,265 @@ describe('SpreadSheetService', () => {
     });
   });
 
+  describe('progress reporting', () => {
+    it('should report bytes read and rows shaped', async () => {
+      const mockWorkbook = {
+        SheetNames: ['Sheet1'],
+        Sheets: {
+          Sheet1: {}
+        }
+      };
+
+      (XLSX.read as ReturnType<typeof vi.fn>).mockReturnValue(mockWorkbook);
+      (XLSX.utils.sheet_to_json as ReturnType<typeof vi.fn>).mockReturnValue([
+        ['Name'],
+        ['John'],
+        ['Jane'],
+        ['Bob']
+      ]);
+      const onProgress = vi.fn();
+
+      const promise = SpreadSheetService(mockFile, { performance: { onProgress, batchSize: 2 } });
+
+      mockFileReader.onprogress?.({ lengthComputable: true, loaded: 3, total: 7 });
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+
+      const result = await promise;
+
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        { phase: 'reading', loaded: 3, total: 7 },
+        { phase: 'reading', loaded: 7, total: 7 }
+      ]);
+
+      onProgress.mockClear();
+      result.getAllRows?.({ reportProgress: false });
+      expect(onProgress).not.toHaveBeenCalled();
+
+      result.getAllRows?.();
+
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        { phase: 'rows', loaded: 2, total: 3 },
+        { phase: 'rows', loaded: 3, total: 3 }
+      ]);
+    });
+
+    it('should shape rows a batch at a time, yielding between batches, when loading every row', async () => {
+      vi.mocked(XLSX.utils.sheet_to_json).mockReturnValue([
+        ['Name'],
+        ['John'],
+        ['Jane'],
+        ['Bob']
+      ]);
+      const onProgress = vi.fn();
+
+      const promise = SpreadSheetService(mockFile, { performance: { onProgress, batchSize: 2 } });
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+      const result = await promise;
+      onProgress.mockClear();
+
+      const loading = result.loadAllRows?.();
+
+      // The first batch is shaped straight away; the rest waits for the event loop
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([{ phase: 'rows', loaded: 2, total: 3 }]);
+      await expect(loading).resolves.toEqual(result.getAllRows?.({ reportProgress: false }));
+      expect(onProgress).toHaveBeenLastCalledWith({ phase: 'rows', loaded: 3, total: 3 });
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should reject with an AbortError when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(SpreadSheetService(mockFile, {}, 'default', controller.signal))
+        .rejects.toMatchObject({ name: 'AbortError' });
+      expect(mockFileReader.readAsBinaryString).not.toHaveBeenCalled();
+    });
+
+    it('should abort an in-flight read', async () => {
+      const controller = new AbortController();
+
+      const promise = SpreadSheetService(mockFile, {}, 'default', controller.signal);
+      controller.abort();
+
+      await expect(promise).rejects.toThrow('File processing was cancelled');
+      expect(mockFileReader.abort).toHaveBeenCalled();
+      expect(XLSX.read).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('web worker parsing', () => {
+    const mockWorkbook = {
+      SheetNames: ['Sheet1'],
+      Sheets: {
+        Sheet1: {}
+      }
+    };
+
+    const createFakeWorker = () => {
+      const worker = {
+        onmessage: null as ((event: { data: unknown }) => void) | null,
+        onerror: null as ((event: { preventDefault: () => void }) => void) | null,
+        terminate: vi.fn(),
+        postMessage: vi.fn((request: WorkerParseRequest, _transfer?: Transferable[]) => {
+          setTimeout(() => worker.onmessage?.({ data: handleParseRequest(request) }), 0);
+        })
+      };
+      return worker;
+    };
+
+    beforeEach(() => {
+      vi.stubGlobal('Worker', vi.fn());
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should parse through the worker when createWorker is configured', async () => {
+      (XLSX.read as ReturnType<typeof vi.fn>).mockReturnValue(mockWorkbook);
+      (XLSX.utils.sheet_to_json as ReturnType<typeof vi.fn>).mockReturnValue([
+        ['Name', 'Age'],
+        ['John', 25],
+        ['Jane', 30]
+      ]);
+      const worker = createFakeWorker();
+
+      const promise = SpreadSheetService(mockFile, {
+        previewRowCount: 1,
+        performance: { createWorker: () => worker as unknown as Worker }
+      });
+
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+
+      const result = await promise;
+
+      expect(worker.postMessage).toHaveBeenCalledWith({
+        data: 'mock-binary-data',
+        options: expect.objectContaining({ headerRow: 1, previewRowCount: 1, sanitizeData: true })
+      });
+      expect(worker.terminate).toHaveBeenCalled();
+      expect(result.columns).toEqual(['Name', 'Age']);
+      expect(result.data).toEqual([{ Name: 'John', Age: 25 }]);
+      expect(result.getAllRows?.()).toHaveLength(2);
+    });
+
+    it('should reject with the parse error reported by the worker', async () => {
+      (XLSX.read as ReturnType<typeof vi.fn>).mockReturnValue(mockWorkbook);
+      const worker = createFakeWorker();
+
+      const promise = SpreadSheetService(mockFile, {
+        sheet: 5,
+        performance: { createWorker: () => worker as unknown as Worker }
+      });
+
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+
+      await expect(promise).rejects.toThrow('Invalid sheet selection');
+    });
+
+    it('should fall back to in-thread parsing when the worker cannot be created', async () => {
+      (XLSX.read as ReturnType<typeof vi.fn>).mockReturnValue(mockWorkbook);
+      (XLSX.utils.sheet_to_json as ReturnType<typeof vi.fn>).mockReturnValue([
+        ['Name'],
+        ['John']
+      ]);
+
+      const promise = SpreadSheetService(mockFile, {
+        performance: {
+          createWorker: () => {
+            throw new Error('Workers are not supported');
+          }
+        }
+      });
+
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+
+      const result = await promise;
+      expect(result.data).toEqual([{ Name: 'John' }]);
+    });
+
+    it('should fall back to in-thread parsing when the worker script fails', async () => {
+      (XLSX.read as ReturnType<typeof vi.fn>).mockReturnValue(mockWorkbook);
+      (XLSX.utils.sheet_to_json as ReturnType<typeof vi.fn>).mockReturnValue([
+        ['Name'],
+        ['John']
+      ]);
+      const worker = createFakeWorker();
+      worker.postMessage.mockImplementation(() => {
+        setTimeout(() => worker.onerror?.({ preventDefault: vi.fn() }), 0);
+      });
+
+      const promise = SpreadSheetService(mockFile, {
+        performance: { createWorker: () => worker as unknown as Worker }
+      });
+
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+
+      const result = await promise;
+      expect(worker.terminate).toHaveBeenCalled();
+      expect(result.data).toEqual([{ Name: 'John' }]);
+    });
+
+    describe('with binary file data', () => {
+      beforeEach(() => {
+        // Test mode turns chunked reading off, and only chunked reading hands over an ArrayBuffer
+        vi.stubEnv('NODE_ENV', 'production');
+        vi.stubEnv('VITEST', '');
+        mockFileReader.readAsArrayBuffer = vi.fn((blob: Blob) => {
+          setTimeout(() => mockFileReader.onload?.({ target: { result: new ArrayBuffer(blob.size) } }), 0);
+        });
+        (XLSX.read as ReturnType<typeof vi.fn>).mockReturnValue(mockWorkbook);
+        (XLSX.utils.sheet_to_json as ReturnType<typeof vi.fn>).mockReturnValue([
+          ['Name'],
+          ['John'],
+          ['Jane']
+        ]);
+      });
+
+      afterEach(() => {
+        vi.unstubAllEnvs();
+      });
+
+      const binaryConfig = (worker: ReturnType<typeof createFakeWorker>) => ({
+        performance: {
+          chunkSize: 4,
+          processingThrottle: 0,
+          createWorker: () => worker as unknown as Worker
+        }
+      });
+
+      it('should transfer the file data to the worker and receive the sheet once', async () => {
+        const worker = createFakeWorker();
+
+        const result = await SpreadSheetService(mockFile, binaryConfig(worker), 'transfer');
+
+        const data: unknown = worker.postMessage.mock.calls[0]?.[0]?.data;
+        expect(data).toBeInstanceOf(ArrayBuffer);
+        expect(worker.postMessage.mock.calls[0]?.[1]).toEqual([data]);
+        expect(handleParseRequest({ data: 'mock-binary-data', options: {
+          headerRow: 1, omitHeader: false, sheets: [0], previewRowCount: 5, sanitizeData: true
+        } }).results?.[0]).not.toHaveProperty('rows');
+        expect(result.getAllRows?.()).toEqual([{ Name: 'John' }, { Name: 'Jane' }]);
+      });
+
+      it('should read the file again when the worker fails after taking the data', async () => {
+        const worker = createFakeWorker();
+        worker.postMessage.mockImplementation((request: WorkerParseRequest) => {
+          // Transferring detaches the buffer on this side
+          structuredClone(request.data, { transfer: [request.data as ArrayBuffer] });
+          setTimeout(() => worker.onerror?.({ preventDefault: vi.fn() }), 0);
+        });
+
+        const result = await SpreadSheetService(mockFile, binaryConfig(worker), 'transfer-fallback');
+
+        const parsed: unknown = (XLSX.read as ReturnType<typeof vi.fn>).mock.calls[0]?.[0];
+        expect((parsed as ArrayBuffer).byteLength).toBe(mockFile.size);
+        expect(result.data).toEqual([{ Name: 'John' }, { Name: 'Jane' }]);
+      });
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle missing cells in rows', async () => {
       const mockWorkbook = {
@@ -406,5 +859,24 @@ describe('SpreadSheetService', () => {
         { Name: 'Bob', Age: '', Email: '' }
       ]);
     });
+
+    it('should report large files as warnings on the result', async () => {
+      (XLSX.read as ReturnType<typeof vi.fn>).mockReturnValue({ SheetNames: ['Sheet1'], Sheets: { Sheet1: {} } });
+      (XLSX.utils.sheet_to_json as ReturnType<typeof vi.fn>).mockReturnValue([['Name'], ['John']]);
+      Object.defineProperty(mockFile, 'size', { value: 11 * 1024 * 1024 });
+
+      const promise = SpreadSheetService(mockFile);
+      mockFileReader.onload?.({ target: { result: 'mock-binary-data' } });
+      const result = await promise;
+
+      expect(result.warnings).toEqual([
+        {
+          option: { label: 'test.xlsx', value: 'test.xlsx' },
+          message: 'Large file detected (11.00MB). Processing may take longer than usual.',
+          type: 'performance',
+          severity: 'warning'
+        }
+      ]);
+    });
   });
 }); 
\ No newline at end of file
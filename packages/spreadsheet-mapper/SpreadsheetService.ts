@@ -9,8 +9,20 @@ import type {
   RateLimitState,
   PerformanceMetrics,
   SecurityConfig,
-  PerformanceConfig
+  PerformanceConfig,
+  ProcessingProgress,
+  SpreadsheetParseOptions,
+  ParsedSpreadsheet,
+  WorkerParseRequest,
+  WorkerParseResponse,
+  SheetSummary,
+  WorkbookInfo,
+  HeaderDetection,
+  HeaderRowRange,
+  CellRange
 } from './types';
+import { detectHeaderRow, HEADER_SCAN_ROWS } from './headerDetection';
+import { buildHeaderColumns, toHeaderRange } from './headerColumns';
 
 // Default security configuration
 const DEFAULT_SECURITY_CONFIG: Required<SecurityConfig> = {
@@ -28,17 +40,21 @@ const DEFAULT_SECURITY_CONFIG: Required<SecurityConfig> = {
 };
 
 // Default performance configuration
-const DEFAULT_PERFORMANCE_CONFIG: Required<PerformanceConfig> = {
+const DEFAULT_PERFORMANCE_CONFIG: Required<Omit<PerformanceConfig, 'createWorker' | 'onProgress'>> = {
   enableChunkedReading: true,
   chunkSize: 1024 * 1024, // 1MB
   processingThrottle: 100,
   enableMetrics: false,
-  maxConcurrentFiles: 3
+  maxConcurrentFiles: 3,
+  batchSize: 1000
 };
 
 // Global rate limiting state
 const rateLimitState: Map<string, RateLimitState> = new Map();
 
+// Bytes read by inspectWorkbook, reused when the same file is processed once its sheets are chosen
+const inspectedFileData = new WeakMap<File, ArrayBuffer | string>();
+
 /**
  * Validates file security constraints
  */
@@ -93,6 +109,66 @@ const sanitizeCellValue = (value: CellValue): CellValue => {
   return value;
 };
 
+/**
+ * Shapes a raw sheet row into a record keyed by column name
+ */
+const shapeRow = (row: SpreadsheetRow, columns: string[], sanitize: boolean): Record<string, CellValue> =>
+  columns.reduce((acc, curr, i) => {
+    let cellValue = row[i];
+    // Ensure missing cells are represented as empty strings for consistency
+    if (cellValue === undefined || cellValue === null) {
+      cellValue = '';
+    }
+    if (sanitize) {
+      cellValue = sanitizeCellValue(cellValue);
+    }
+    acc[curr] = cellValue;
+    return acc;
+  }, {} as Record<string, CellValue>);
+
+/**
+ * Shapes every row, reporting progress once per `step` rows
+ */
+const shapeRows = (
+  rows: SpreadsheetMatrix,
+  columns: string[],
+  sanitize: boolean,
+  step: number,
+  onProgress?: (progress: ProcessingProgress) => void
+): Record<string, CellValue>[] =>
+  rows.map((row: SpreadsheetRow, index: number) => {
+    const shaped = shapeRow(row, columns, sanitize);
+    const processed = index + 1;
+    if (onProgress && (processed % step === 0 || processed === rows.length)) {
+      onProgress({ phase: 'rows', loaded: processed, total: rows.length });
+    }
+    return shaped;
+  });
+
+/**
+ * Shapes every row a batch at a time, reporting progress and yielding to the event loop after each batch
+ * so the progress can be rendered while a large sheet is shaped
+ */
+const shapeRowsInBatches = async (
+  rows: SpreadsheetMatrix,
+  columns: string[],
+  sanitize: boolean,
+  batchSize: number,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<Record<string, CellValue>[]> => {
+  const shaped: Record<string, CellValue>[] = [];
+  for (let start = 0; start < rows.length; start += batchSize) {
+    for (const row of rows.slice(start, start + batchSize)) {
+      shaped.push(shapeRow(row, columns, sanitize));
+    }
+    onProgress?.({ phase: 'rows', loaded: shaped.length, total: rows.length });
+    if (shaped.length < rows.length) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+  return shaped;
+};
+
 /**
  * Checks rate limiting for file processing
  */
@@ -117,15 +193,43 @@ const checkRateLimit = (clientId: string, securityConfig: Required<SecurityConfi
   return true;
 };
 
+/**
+ * Creates the error used when processing is cancelled through an AbortSignal
+ */
+const createAbortError = (): Error => {
+  const error = new Error('File processing was cancelled');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Throws an AbortError if the signal has already been aborted
+ */
+const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
 /**
  * Reads file in chunks for better memory management
  */
-const readFileChunked = (file: File, chunkSize: number): Promise<ArrayBuffer> => {
+const readFileChunked = (
+  file: File,
+  chunkSize: number,
+  signal?: AbortSignal,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<ArrayBuffer> => {
   return new Promise((resolve, reject) => {
     const chunks: ArrayBuffer[] = [];
     let offset = 0;
     
     const readNextChunk = () => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
       const slice = file.slice(offset, offset + chunkSize);
       const reader = new FileReader();
       
@@ -133,6 +237,7 @@ const readFileChunked = (file: File, chunkSize: number): Promise<ArrayBuffer> =>
         if (event.target?.result) {
           chunks.push(event.target.result as ArrayBuffer);
           offset += chunkSize;
+          onProgress?.({ phase: 'reading', loaded: Math.min(offset, file.size), total: file.size });
           
           if (offset < file.size) {
             setTimeout(readNextChunk, 10); // Small delay to prevent blocking
@@ -162,26 +267,9 @@ const readFileChunked = (file: File, chunkSize: number): Promise<ArrayBuffer> =>
 };
 
 /**
- * Core async processing function
+ * Applies rate limiting and file validation before any bytes are read, returning non-blocking warnings
  */
-const processSpreadsheetAsync = async (
-  file: File,
-  config: SpreadsheetConfig,
-  clientId: string,
-  startTime: number
-): Promise<SpreadsheetData> => {
-  // Merge configurations with defaults
-  const securityConfig = { ...DEFAULT_SECURITY_CONFIG, ...config.security };
-  const performanceConfig = { ...DEFAULT_PERFORMANCE_CONFIG, ...config.performance };
-  
-  const {
-    headerRow = 1,
-    omitHeader = false,
-    dataStartRow,
-    sheet: sheetIdentifier = 0,
-    previewRowCount = 5,
-  } = config;
-
+const preflightFile = (file: File, securityConfig: Required<SecurityConfig>, clientId: string): string[] => {
   // Rate limiting check
   if (!checkRateLimit(clientId, securityConfig)) {
     throw new Error('Rate limit exceeded. Please wait before processing more files.');
@@ -193,175 +281,848 @@ const processSpreadsheetAsync = async (
     throw new Error(`File validation failed: ${validation.errors.join(', ')}`);
   }
 
-  // Log warnings if any
-  if (validation.warnings.length > 0) {
-    console.warn('File processing warnings:', validation.warnings);
+  return validation.warnings;
+};
+
+/**
+ * Resolves the configured sheet identifier to a sheet name in the workbook
+ */
+const resolveSheetName = (workbook: XLSX.WorkBook, sheetIdentifier: string | number): string => {
+  if (typeof sheetIdentifier === 'number') {
+    if (sheetIdentifier >= workbook.SheetNames.length) {
+      throw new Error('Invalid sheet selection');
+    }
+    const foundSheetName = workbook.SheetNames[sheetIdentifier];
+    if (!foundSheetName) {
+      throw new Error('Sheet not found');
+    }
+    return foundSheetName;
+  }
+  if (!workbook.SheetNames.includes(sheetIdentifier)) {
+    throw new Error('Named sheet not found');
   }
+  return sheetIdentifier;
+};
 
-  // Add processing throttle
-  if (performanceConfig.processingThrottle > 0) {
-    await new Promise(resolve => setTimeout(resolve, performanceConfig.processingThrottle));
+/**
+ * Reads a single slice of a file as an ArrayBuffer
+ */
+const readSlice = (blob: Blob): Promise<ArrayBuffer> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      if (event.target?.result) {
+        resolve(event.target.result as ArrayBuffer);
+      } else {
+        reject(new Error('Failed to read file'));
+      }
+    };
+    reader.onerror = reject;
+    reader.readAsArrayBuffer(blob);
+  });
+};
+
+// Day zero of Excel's date serial numbers, in local time as XLSX uses it
+const EXCEL_EPOCH = new Date(1899, 11, 30, 0, 0, 0);
+
+/**
+ * Reads a number the way XLSX does for CSV cells: "1,200" → 1200, "15%" → 0.15, "$(5)" → -5; NaN otherwise
+ */
+const toCsvNumber = (text: string): number => {
+  let value = Number(text);
+  if (!isNaN(value) || !/\d/.test(text)) return value;
+  let scale = 1;
+  let digits = text
+    .replace(/(\d),(\d)/g, '$1$2')
+    .replace(/[$]/g, '')
+    .replace(/[%]/g, () => {
+      scale *= 100;
+      return '';
+    });
+  value = Number(digits);
+  if (!isNaN(value)) return value / scale;
+  digits = digits.replace(/[(](.*)[)]/, (_, inner: string) => {
+    scale = -scale;
+    return inner;
+  });
+  value = Number(digits);
+  return isNaN(value) ? value : value / scale;
+};
+
+/**
+ * Reads a date the way XLSX does for CSV cells ("2024-01-05", "1/5/2024", "5 Jan 2024"); undefined otherwise
+ */
+const toCsvDate = (text: string): Date | undefined => {
+  const date = new Date(text);
+  const year = date.getFullYear() - 1900;
+  const month = date.getMonth();
+  const day = date.getDate();
+  if (isNaN(day) || year < 0 || year > 8099) return undefined;
+  if ((month > 0 || day > 1) && year !== 101) return date;
+  if (/jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec/.test(text.toLowerCase())) return date;
+  return /[^-0-9:,/\\]/.test(text) ? undefined : date;
+};
+
+/**
+ * Converts raw CSV text into a cell value, typing it like XLSX does when SpreadSheetService reads the whole file:
+ * TRUE/FALSE become booleans, numbers (with thousands separators, % or $) become numbers and dates become serial numbers
+ */
+const toCsvCellValue = (text: string): CellValue => {
+  if (text.trim() === '') return text;
+  if (text.charAt(0) === '=') {
+    // ="007" keeps text as is; other formulas have no value in a CSV file
+    if (text.charAt(1) === '"' && text.charAt(text.length - 1) === '"') return text.slice(2, -1).replace(/""/g, '"');
+    return text.length === 1 ? text : '';
   }
+  if (text === 'TRUE' || text === 'FALSE') return text === 'TRUE';
+  const number = toCsvNumber(text);
+  if (!isNaN(number)) return number;
+  const date = toCsvDate(text);
+  if (date) {
+    const epoch = EXCEL_EPOCH.getTime() + (date.getTimezoneOffset() - EXCEL_EPOCH.getTimezoneOffset()) * 60000;
+    return (date.getTime() - epoch) / (24 * 60 * 60 * 1000);
+  }
+  return text;
+};
 
-  // Read file with appropriate method
-  let data: ArrayBuffer | string;
-  if (performanceConfig.enableChunkedReading && file.size > performanceConfig.chunkSize) {
-    data = await readFileChunked(file, performanceConfig.chunkSize);
-  } else {
-    data = await new Promise<string>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        if (event.target?.result) {
-          resolve(event.target.result as string);
-        } else {
-          reject(new Error('Failed to read file'));
+// Delimiters XLSX recognises in CSV files, with the weight that breaks a tie between their counts
+const CSV_DELIMITER_WEIGHTS: Record<string, number> = { ',': 3, '\t': 2, ';': 1 };
+
+// Characters XLSX looks at to guess a CSV file's delimiter
+const CSV_DELIMITER_SAMPLE = 1024;
+
+/**
+ * Picks a CSV file's delimiter the way XLSX does: the most frequent of `,`, tab and `;` outside quotes
+ * in the first characters of the file, with ties going to `,` and then tab
+ */
+const guessCsvDelimiter = (text: string): string => {
+  const counts: Record<string, number> = {};
+  let inQuotes = false;
+  for (let i = 0; i < Math.min(text.length, CSV_DELIMITER_SAMPLE); i++) {
+    const char = text.charAt(i);
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && CSV_DELIMITER_WEIGHTS[char] !== undefined) {
+      counts[char] = (counts[char] ?? 0) + 1;
+    }
+  }
+  return Object.keys(CSV_DELIMITER_WEIGHTS).reduce((best, delimiter) => {
+    const difference = (counts[delimiter] ?? 0) - (counts[best] ?? 0);
+    return difference > 0 || (difference === 0 && (CSV_DELIMITER_WEIGHTS[delimiter] ?? 0) > (CSV_DELIMITER_WEIGHTS[best] ?? 0))
+      ? delimiter
+      : best;
+  }, ',');
+};
+
+/**
+ * Reads the delimiter from a `sep=;` first line, as XLSX does, and returns it with the text after that line;
+ * otherwise guesses it from the text
+ */
+const readCsvDelimiter = (text: string): { delimiter: string; rest: string } => {
+  if (text.slice(0, 4) === 'sep=') {
+    if (text.charAt(5) === '\r' && text.charAt(6) === '\n') return { delimiter: text.charAt(4), rest: text.slice(7) };
+    if (text.charAt(5) === '\r' || text.charAt(5) === '\n') return { delimiter: text.charAt(4), rest: text.slice(6) };
+  }
+  return { delimiter: guessCsvDelimiter(text), rest: text };
+};
+
+// Incremental CSV parser state, carried across chunk boundaries
+interface CsvParserState {
+  delimiter: string;
+  row: CellValue[];
+  field: string;
+  inQuotes: boolean;
+  pendingQuote: boolean;
+  pendingCarriageReturn: boolean;
+}
+
+/**
+ * Feeds a decoded chunk of CSV text through the parser and returns the rows it completed
+ */
+const parseCsvChunk = (text: string, state: CsvParserState): SpreadsheetMatrix => {
+  const rows: SpreadsheetMatrix = [];
+  const endRow = () => {
+    state.row.push(toCsvCellValue(state.field));
+    rows.push(state.row);
+    state.row = [];
+    state.field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+
+    if (state.pendingCarriageReturn) {
+      state.pendingCarriageReturn = false;
+      if (char === '\n') continue;
+    }
+
+    if (state.inQuotes) {
+      if (state.pendingQuote) {
+        state.pendingQuote = false;
+        if (char === '"') {
+          state.field += '"';
+          continue;
         }
-      };
-      reader.onerror = reject;
-      reader.readAsBinaryString(file);
-    });
+        state.inQuotes = false;
+      } else if (char === '"') {
+        state.pendingQuote = true;
+        continue;
+      } else {
+        state.field += char;
+        continue;
+      }
+    }
+
+    if (char === '"' && state.field === '') {
+      state.inQuotes = true;
+    } else if (char === state.delimiter) {
+      state.row.push(toCsvCellValue(state.field));
+      state.field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char === '\r') {
+      endRow();
+      state.pendingCarriageReturn = true;
+    } else {
+      state.field += char;
+    }
   }
 
-  // Process with XLSX
-  const workbook = XLSX.read(data, { type: data instanceof ArrayBuffer ? 'array' : 'binary' });
+  return rows;
+};
 
-  // Sheet validation
-  let sheetName: string;
-  if (typeof sheetIdentifier === 'number') {
-    if (sheetIdentifier >= workbook.SheetNames.length) {
-      throw new Error('Invalid sheet selection');
+/**
+ * Streams raw rows out of a CSV file without holding the whole file in memory
+ */
+async function* readCsvRows(
+  file: File,
+  chunkSize: number,
+  onProgress?: (progress: ProcessingProgress) => void
+): AsyncGenerator<SpreadsheetRow> {
+  const decoder = new TextDecoder();
+  const state: CsvParserState = {
+    delimiter: ',',
+    row: [],
+    field: '',
+    inQuotes: false,
+    pendingQuote: false,
+    pendingCarriageReturn: false
+  };
+  // Text held back until there is enough of it to find the delimiter
+  let head: string | undefined = '';
+
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    const chunk = await readSlice(file.slice(offset, offset + chunkSize));
+    let text = decoder.decode(new Uint8Array(chunk), { stream: offset + chunkSize < file.size });
+    onProgress?.({ phase: 'reading', loaded: Math.min(offset + chunkSize, file.size), total: file.size });
+    if (head !== undefined) {
+      head += text;
+      if (head.length < CSV_DELIMITER_SAMPLE && offset + chunkSize < file.size) continue;
+      const { delimiter, rest } = readCsvDelimiter(head);
+      state.delimiter = delimiter;
+      text = rest;
+      head = undefined;
     }
-    const foundSheetName = workbook.SheetNames[sheetIdentifier];
-    if (!foundSheetName) {
-      throw new Error('Sheet not found');
+    for (const row of parseCsvChunk(text, state)) {
+      yield row;
     }
-    sheetName = foundSheetName;
-  } else {
-    if (!workbook.SheetNames.includes(sheetIdentifier)) {
-      throw new Error('Named sheet not found');
+  }
+
+  // Flush a final row that has no trailing newline
+  if (state.field !== '' || state.row.length > 0 || state.inQuotes) {
+    state.row.push(toCsvCellValue(state.field));
+    yield state.row;
+  }
+}
+
+/**
+ * Walks a worksheet row by row instead of converting it to a matrix up front.
+ * Like sheet_to_json, rows and columns start at the used range's top-left cell, so `headerRow: 1` is its first row.
+ */
+async function* readSheetRows(sheet: XLSX.WorkSheet): AsyncGenerator<SpreadsheetRow> {
+  const ref = sheet['!ref'];
+  if (!ref) return;
+
+  const range = XLSX.utils.decode_range(ref);
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: SpreadsheetRow = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined;
+      // Error (#N/A) and stub cells have no value, as in sheet_to_json
+      row.push(cell?.v === undefined || cell.t === 'e' || cell.t === 'z' ? '' : cell.v as CellValue);
     }
-    sheetName = sheetIdentifier;
+    yield row;
   }
+}
 
-  const sheet = workbook.Sheets[sheetName];
-  if (!sheet) {
-    throw new Error('Sheet data not accessible');
+/**
+ * Reads the first rows of a stream, e.g. to detect the header, and returns them with a stream that replays them before the rest
+ */
+const peekRows = async (
+  source: AsyncIterable<SpreadsheetRow>,
+  count: number
+): Promise<{ head: SpreadsheetMatrix; rows: AsyncIterable<SpreadsheetRow> }> => {
+  const iterator = source[Symbol.asyncIterator]();
+  const head: SpreadsheetMatrix = [];
+  let next = await iterator.next();
+  while (!next.done) {
+    head.push(next.value);
+    if (head.length >= count) break;
+    next = await iterator.next();
+  }
+
+  async function* replay(): AsyncGenerator<SpreadsheetRow> {
+    for (const row of head) {
+      yield row;
+    }
+    if (next.done) return;
+    next = await iterator.next();
+    while (!next.done) {
+      yield next.value;
+      next = await iterator.next();
+    }
   }
 
-  const json: SpreadsheetMatrix = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '' });
+  return { head, rows: replay() };
+};
+
+/**
+ * Applies header and data-start settings to a stream of raw rows and yields shaped rows in batches
+ */
+async function* shapeRowBatches(
+  source: AsyncIterable<SpreadsheetRow>,
+  config: SpreadsheetConfig,
+  sanitize: boolean,
+  batchSize: number,
+  merges: CellRange[] = []
+): AsyncGenerator<Record<string, CellValue>[]> {
+  const { omitHeader = false, dataStartRow } = config;
+  let { headerRow = 1 } = config;
+  let rows = source;
+  if (headerRow === 'auto' && !omitHeader) {
+    const peeked = await peekRows(source, HEADER_SCAN_ROWS);
+    headerRow = detectHeaderRow(peeked.head).row;
+    rows = peeked.rows;
+  }
+  const [firstHeaderRow, lastHeaderRow] = toHeaderRange(headerRow === 'auto' ? 1 : headerRow);
+  if (!omitHeader && firstHeaderRow > lastHeaderRow) {
+    throw new Error('Header row range is invalid');
+  }
+  const firstDataRow = dataStartRow ?? (omitHeader ? 1 : lastHeaderRow + 1);
+
+  let columns: string[] | null = null;
+  // Rows up to the last header row, kept so merged header cells can be read from the rows above
+  const headerRows: SpreadsheetMatrix = [];
+  let rowNumber = 0;
+  let batch: Record<string, CellValue>[] = [];
+
+  for await (const row of rows) {
+    rowNumber++;
+    if (!columns) {
+      if (omitHeader) {
+        columns = Array.from({ length: Math.min(row.length, 100) }, (_, i) => String.fromCharCode(65 + i)); // Limit columns
+      } else if (rowNumber <= lastHeaderRow) {
+        headerRows.push(row);
+        if (rowNumber === lastHeaderRow) {
+          columns = buildHeaderColumns(headerRows, Math.max(0, firstHeaderRow - 1), lastHeaderRow - 1, merges);
+        }
+      }
+    }
+    if (!columns || rowNumber < firstDataRow) continue;
+
+    batch.push(shapeRow(row, columns, sanitize));
+    if (batch.length >= batchSize) {
+      yield batch;
+      batch = [];
+    }
+  }
+
+  if (!columns && !omitHeader) {
+    throw new Error(rowNumber === 0 ? 'Header data not available' : 'Header row is out of bounds');
+  }
+  if (batch.length > 0) {
+    yield batch;
+  }
+}
+
+/**
+ * Reads a sheet's merged regions, shifted to the row and column indexes of its `sheet_to_json` matrix
+ */
+const getMatrixMerges = (sheet: XLSX.WorkSheet): CellRange[] => {
+  const merges = sheet['!merges'];
+  if (!merges || merges.length === 0) return [];
+  const origin = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s : { r: 0, c: 0 };
+  return merges.map(({ s, e }) => ({
+    s: { r: s.r - origin.r, c: s.c - origin.c },
+    e: { r: e.r - origin.r, c: e.c - origin.c }
+  }));
+};
+
+/**
+ * Splits a sheet's rows into columns, data rows and a shaped preview, using the header and data rows in the options
+ */
+const shapeMatrix = (
+  json: SpreadsheetMatrix,
+  options: Omit<SpreadsheetParseOptions, 'sheets'>,
+  merges: CellRange[] = []
+): Omit<ParsedSpreadsheet, 'matrix' | 'merges'> => {
+  const {
+    headerRow,
+    omitHeader,
+    dataStartRow,
+    previewRowCount,
+    sanitizeData
+  } = options;
 
   // Data processing with bounds checking
   let columns: string[];
-  let rows: SpreadsheetMatrix;
+  let dataStartIndex: number;
+  let detectedHeader: HeaderDetection | undefined;
 
   if (omitHeader) {
     const firstRow = json[0] || [];
     columns = Array.from({ length: Math.min(firstRow.length, 100) }, (_, i) => String.fromCharCode(65 + i)); // Limit columns
-    const dataStartIndex = Math.max(0, Math.min(dataStartRow ? dataStartRow - 1 : 0, json.length));
-    rows = json.slice(dataStartIndex);
+    dataStartIndex = Math.max(0, Math.min(dataStartRow ? dataStartRow - 1 : 0, json.length));
   } else {
     // Check if we have any data at all
     if (json.length === 0) {
       throw new Error('Header data not available');
     }
+    if (headerRow === 'auto') {
+      detectedHeader = detectHeaderRow(json);
+    }
+    const [firstRow, lastRow] = toHeaderRange(detectedHeader?.row ?? (headerRow === 'auto' ? 1 : headerRow));
+    if (firstRow > lastRow) {
+      throw new Error('Header row range is invalid');
+    }
     // Check if headerRow is out of bounds
-    if (headerRow > json.length) {
+    if (lastRow > json.length) {
       throw new Error('Header row is out of bounds');
     }
-    const headerIndex = Math.max(0, Math.min(headerRow - 1, json.length - 1));
-    const headerRow_ = json[headerIndex];
-    if (!headerRow_) {
-      throw new Error('Header data not available');
+    const firstIndex = Math.max(0, Math.min(firstRow - 1, json.length - 1));
+    const lastIndex = Math.max(firstIndex, lastRow - 1);
+    columns = buildHeaderColumns(json, firstIndex, lastIndex, merges);
+    dataStartIndex = Math.max(0, Math.min(dataStartRow ? dataStartRow - 1 : lastIndex + 1, json.length));
+  }
+
+  // Process and sanitize preview data
+  const preview = json.slice(dataStartIndex, dataStartIndex + previewRowCount).map((row: SpreadsheetRow) =>
+    shapeRow(row, columns, sanitizeData)
+  );
+
+  return { columns, dataStartIndex, preview, ...(detectedHeader && { detectedHeader }) };
+};
+
+/**
+ * Parses each requested sheet of a workbook into columns, data rows and a shaped preview, reading the workbook once.
+ * Pure and synchronous so it can run either in-thread or inside the parsing worker.
+ */
+export const parseSheets = (data: ArrayBuffer | string, options: SpreadsheetParseOptions): ParsedSpreadsheet[] => {
+  // Process with XLSX
+  const workbook = XLSX.read(data, { type: data instanceof ArrayBuffer ? 'array' : 'binary' });
+
+  return options.sheets.map((sheetIdentifier) => {
+    // Sheet validation
+    const sheetName = resolveSheetName(workbook, sheetIdentifier);
+
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) {
+      throw new Error('Sheet data not accessible');
     }
-    columns = headerRow_.slice(0, 100).map(String); // Limit columns to prevent memory issues
-    const dataStartIndex = Math.max(0, Math.min(dataStartRow ? dataStartRow - 1 : headerIndex + 1, json.length));
-    rows = json.slice(dataStartIndex);
-  }
-
-  // Optimize memory usage - only process preview data when previewRowCount is set
-  const effectivePreviewCount = performanceConfig.enableMetrics ? Math.min(previewRowCount || rows.length, 1000) : previewRowCount;
-  const previewRows = rows.slice(0, effectivePreviewCount);
-
-  // Process and sanitize data
-  const processedData = previewRows.map((row: SpreadsheetRow) =>
-    columns.reduce((acc, curr, i) => {
-      let cellValue = row[i];
-      // Ensure missing cells are represented as empty strings for consistency
-      if (cellValue === undefined || cellValue === null) {
-        cellValue = '';
+
+    const json: SpreadsheetMatrix = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '' });
+    const merges = getMatrixMerges(sheet);
+    return { ...shapeMatrix(json, options, merges), matrix: json, ...(merges.length > 0 && { merges }) };
+  });
+};
+
+/**
+ * Reads a file's bytes, in chunks for large files when chunked reading is enabled
+ */
+const readFileData = (
+  file: File,
+  performanceConfig: Pick<PerformanceConfig, 'enableChunkedReading' | 'chunkSize' | 'onProgress'>,
+  signal?: AbortSignal
+): Promise<ArrayBuffer | string> => {
+  const { enableChunkedReading, chunkSize = DEFAULT_PERFORMANCE_CONFIG.chunkSize, onProgress } = performanceConfig;
+  if (enableChunkedReading && file.size > chunkSize) {
+    return readFileChunked(file, chunkSize, signal, onProgress);
+  }
+
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    signal?.addEventListener('abort', () => {
+      reader.abort();
+      reject(createAbortError());
+    }, { once: true });
+    reader.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.({ phase: 'reading', loaded: event.loaded, total: event.total });
       }
-      if (securityConfig.sanitizeData) {
-        cellValue = sanitizeCellValue(cellValue);
+    };
+    reader.onload = (event) => {
+      if (event.target?.result) {
+        onProgress?.({ phase: 'reading', loaded: file.size, total: file.size });
+        resolve(event.target.result as string);
+      } else {
+        reject(new Error('Failed to read file'));
       }
-      acc[curr] = cellValue;
-      return acc;
-    }, {} as Record<string, CellValue>)
-  );
+    };
+    reader.onerror = reject;
+    reader.readAsBinaryString(file);
+  });
+};
 
-  // Calculate performance metrics
-  const endTime = (typeof performance !== 'undefined' && performance.now) ? performance.now() : Date.now();
-  const metrics: PerformanceMetrics = {
-    fileSize: file.size,
-    processingTime: endTime - startTime,
-    rowCount: rows.length,
-    ...(performanceConfig.enableMetrics && { memoryUsage: JSON.stringify(processedData).length * 2 })
-  };
+/**
+ * Parses in a Web Worker. Resolves to null when the worker cannot run so the caller falls back to in-thread parsing.
+ */
+const parseInWorker = (
+  createWorker: () => Worker,
+  request: WorkerParseRequest,
+  signal?: AbortSignal
+): Promise<ParsedSpreadsheet[] | null> => {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  let worker: Worker;
+  try {
+    worker = createWorker();
+  } catch {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      worker.terminate();
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<WorkerParseResponse>) => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      if (event.data.results) {
+        resolve(event.data.results);
+      } else {
+        reject(new Error(event.data.error || 'Worker parsing failed'));
+      }
+    };
+    // The worker script itself failed (e.g. could not load), not the parse
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      resolve(null);
+    };
+    // Hand the file's bytes over instead of copying them; the caller reads the file again if it needs them back
+    if (request.data instanceof ArrayBuffer) {
+      worker.postMessage(request, [request.data]);
+    } else {
+      worker.postMessage(request);
+    }
+  });
+};
+
+/**
+ * Core async processing function: reads and parses the file once, then shapes each requested sheet
+ */
+const processSpreadsheetAsync = async (
+  file: File,
+  config: SpreadsheetConfig,
+  sheets: (string | number)[],
+  clientId: string,
+  startTime: number,
+  signal?: AbortSignal
+): Promise<SpreadsheetData[]> => {
+  // Merge configurations with defaults
+  const securityConfig = { ...DEFAULT_SECURITY_CONFIG, ...config.security };
+  const performanceConfig = { ...DEFAULT_PERFORMANCE_CONFIG, ...config.performance };
+  
+  const {
+    headerRow = 1,
+    omitHeader = false,
+    dataStartRow,
+    previewRowCount = 5,
+    rawRowCount = 10
+  } = config;
+
+  throwIfAborted(signal);
+  const warnings = preflightFile(file, securityConfig, clientId);
+
+  // Add processing throttle
+  if (performanceConfig.processingThrottle > 0) {
+    await new Promise(resolve => setTimeout(resolve, performanceConfig.processingThrottle));
+    throwIfAborted(signal);
+  }
 
-  const result: SpreadsheetData = {
-    name: file.name,
-    columns,
-    data: processedData,
-    ...(performanceConfig.enableMetrics && { metrics })
+  // A file inspected to choose its sheets has been read already
+  const data = inspectedFileData.get(file) ?? await readFileData(file, performanceConfig, signal);
+  inspectedFileData.delete(file);
+
+  const parseOptions: SpreadsheetParseOptions = {
+    headerRow,
+    omitHeader,
+    dataStartRow,
+    sheets,
+    // Optimize memory usage - only process preview data when previewRowCount is set
+    previewRowCount: performanceConfig.enableMetrics ? Math.min(previewRowCount || Infinity, 1000) : previewRowCount,
+    sanitizeData: securityConfig.sanitizeData
   };
 
-  return result;
+  // Parse off the main thread when a worker factory is configured, otherwise in-thread
+  const workerResults = performanceConfig.createWorker
+    ? await parseInWorker(performanceConfig.createWorker, { data, options: parseOptions }, signal)
+    : null;
+  throwIfAborted(signal);
+  // A buffer transferred to a worker that then failed is detached, so read the file again for in-thread parsing
+  const detached = !workerResults && data instanceof ArrayBuffer && data.byteLength === 0 && file.size > 0;
+  const parsedSheets = workerResults
+    ?? parseSheets(detached ? await readFileData(file, performanceConfig, signal) : data, parseOptions);
+  // In-thread parsing cannot be interrupted, so discard its result if cancelled meanwhile
+  throwIfAborted(signal);
+
+  return parsedSheets.map(({ matrix, merges, ...parsed }) => {
+    const { preview: processedData } = parsed;
+
+    // The top of the sheet as read, for picking a header row below title banners or notes
+    const rawRows = matrix
+      .slice(0, Math.max(0, rawRowCount))
+      .map(row => (securityConfig.sanitizeData ? row.map(sanitizeCellValue) : row));
+
+    // Calculate performance metrics
+    const endTime = (typeof performance !== 'undefined' && performance.now) ? performance.now() : Date.now();
+    const metrics: PerformanceMetrics = {
+      fileSize: file.size,
+      processingTime: endTime - startTime,
+      rowCount: matrix.length - parsed.dataStartIndex,
+      ...(performanceConfig.enableMetrics && { memoryUsage: JSON.stringify(processedData).length * 2 })
+    };
+
+    // The matrix stays cached in the closure so another header row can be applied without reading the file again
+    const toSpreadsheetData = (
+      { columns, dataStartIndex, preview, detectedHeader }: Omit<ParsedSpreadsheet, 'matrix' | 'merges'>,
+      usedHeaderRow?: number | HeaderRowRange
+    ): SpreadsheetData => ({
+      name: file.name,
+      columns,
+      data: preview,
+      totalRows: matrix.length - dataStartIndex,
+      // Full dataset is shaped lazily so the preview stays light until the import needs every row
+      getAllRows: ({ reportProgress = true } = {}) => shapeRows(
+        matrix.slice(dataStartIndex),
+        columns,
+        securityConfig.sanitizeData,
+        Math.max(1, performanceConfig.batchSize),
+        reportProgress ? performanceConfig.onProgress : undefined
+      ),
+      loadAllRows: () => shapeRowsInBatches(
+        matrix.slice(dataStartIndex),
+        columns,
+        securityConfig.sanitizeData,
+        Math.max(1, performanceConfig.batchSize),
+        performanceConfig.onProgress
+      ),
+      ...(usedHeaderRow !== undefined && { headerRow: usedHeaderRow }),
+      ...(detectedHeader && { headerConfidence: detectedHeader.confidence }),
+      rawRows,
+      withHeaderRow: (row: number | HeaderRowRange, startRow?: number) => toSpreadsheetData(
+        shapeMatrix(matrix, { ...parseOptions, headerRow: row, omitHeader: false, dataStartRow: startRow }, merges),
+        row
+      ),
+      ...(performanceConfig.enableMetrics && { metrics }),
+      ...(warnings.length > 0 && {
+        warnings: warnings.map(message => ({
+          option: { label: file.name, value: file.name },
+          message,
+          type: 'performance' as const,
+          severity: 'warning' as const
+        }))
+      })
+    });
+
+    const usedHeaderRow = parsed.detectedHeader?.row ?? (headerRow === 'auto' ? undefined : headerRow);
+    return toSpreadsheetData(parsed, omitHeader ? undefined : usedHeaderRow);
+  });
 };
 
 /**
- * Enhanced SpreadsheetService with security, performance, and accessibility features
+ * Detects whether we are running under the test runner
  */
-const SpreadSheetService = (
-  file: File, 
+const isTestEnvironment = (): boolean =>
+  (typeof process !== 'undefined' && (process.env?.['NODE_ENV'] === 'test' || process.env?.['VITEST'] === 'true')) || 
+  (typeof window !== 'undefined' && Boolean((window as any).__VITEST__));
+
+/**
+ * Overrides config for test mode - disables delays and complex features
+ */
+const withTestModeOverrides = (config: SpreadsheetConfig): SpreadsheetConfig => ({
+  ...config,
+  performance: {
+    ...config.performance,
+    processingThrottle: 0, // Disable throttling in tests
+    enableChunkedReading: false, // Disable chunked reading in tests
+    enableMetrics: false, // Disable metrics in tests
+  },
+  security: {
+    ...config.security,
+    maxFilesPerWindow: 1000, // High limit for tests
+    rateLimitWindow: 1000, // Short window for tests
+  }
+});
+
+/**
+ * Secure error handling - don't expose internal details outside test mode
+ */
+const toSecureError = (error: unknown, isTestMode: boolean): unknown => {
+  // In test mode, expose more detailed errors for debugging; cancellations pass through as-is
+  if (isTestMode || (error instanceof Error && error.name === 'AbortError')) {
+    return error;
+  }
+
+  const secureMessage = error instanceof Error ? 
+    'File processing failed. Please check the file format and try again.' : 
+    'An unexpected error occurred during file processing.';
+
+  return new Error(secureMessage);
+};
+
+/**
+ * Processes several sheets of a workbook like SpreadSheetService, e.g. the ones chosen after inspectWorkbook.
+ * The file is read and parsed once and counts once towards the rate limit; `config.sheet` is ignored.
+ * @returns {Promise<SpreadsheetData[]>} One result per sheet, in the order given.
+ */
+export const processSheets = (
+  file: File,
+  sheets: (string | number)[],
   config: SpreadsheetConfig = {},
-  clientId = 'default'
-): Promise<SpreadsheetData> => {
+  clientId = 'default',
+  signal?: AbortSignal
+): Promise<SpreadsheetData[]> => {
   const startTime = (typeof performance !== 'undefined' && performance.now) ? performance.now() : Date.now();
   
   // In test environment, disable some features for stability
-  const isTestMode = (typeof process !== 'undefined' && (process.env?.['NODE_ENV'] === 'test' || process.env?.['VITEST'] === 'true')) || 
-                    (typeof window !== 'undefined' && (window as any).__VITEST__);
+  const isTestMode = isTestEnvironment();
   if (isTestMode) {
-    // Override config for test mode - disable delays and complex features
-    config = {
-      ...config,
-      performance: {
-        ...config.performance,
-        processingThrottle: 0, // Disable throttling in tests
-        enableChunkedReading: false, // Disable chunked reading in tests
-        enableMetrics: false, // Disable metrics in tests
-      },
-      security: {
-        ...config.security,
-        maxFilesPerWindow: 1000, // High limit for tests
-        rateLimitWindow: 1000, // Short window for tests
-      }
-    };
+    config = withTestModeOverrides(config);
   }
   
-  return processSpreadsheetAsync(file, config, clientId, startTime)
+  return processSpreadsheetAsync(file, config, sheets, clientId, startTime, signal)
     .catch((error) => {
-      // In test mode, expose more detailed errors for debugging
-      if (isTestMode) {
-        throw error;
-      }
-      
-      // Secure error handling - don't expose internal details
-      const secureMessage = error instanceof Error ? 
-        'File processing failed. Please check the file format and try again.' : 
-        'An unexpected error occurred during file processing.';
-      
-      throw new Error(secureMessage);
+      throw toSecureError(error, isTestMode);
     });
 };
 
+/**
+ * Enhanced SpreadsheetService with security, performance, and accessibility features.
+ * Pass an AbortSignal to cancel processing; the promise then rejects with an `AbortError`.
+ */
+const SpreadSheetService = (
+  file: File, 
+  config: SpreadsheetConfig = {},
+  clientId = 'default',
+  signal?: AbortSignal
+): Promise<SpreadsheetData> =>
+  processSheets(file, [config.sheet ?? 0], config, clientId, signal).then(([data]) => data as SpreadsheetData);
+
+/**
+ * Lists a workbook's sheets with their dimensions and first rows, so users can choose what to import before processing.
+ * Only `previewRowCount` rows (default 5) of each sheet are parsed. Files are validated like SpreadSheetService,
+ * but inspecting does not count towards the rate limit.
+ */
+export const inspectWorkbook = async (
+  file: File,
+  config: SpreadsheetConfig = {},
+  signal?: AbortSignal
+): Promise<WorkbookInfo> => {
+  const isTestMode = isTestEnvironment();
+  if (isTestMode) {
+    config = withTestModeOverrides(config);
+  }
+
+  const securityConfig = { ...DEFAULT_SECURITY_CONFIG, ...config.security };
+  const performanceConfig = { ...DEFAULT_PERFORMANCE_CONFIG, ...config.performance };
+  const sampleRowCount = Math.max(1, config.previewRowCount ?? 5);
+
+  try {
+    throwIfAborted(signal);
+    const validation = validateFile(file, securityConfig);
+    if (!validation.isValid) {
+      throw new Error(`File validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const data = await readFileData(file, performanceConfig, signal);
+    throwIfAborted(signal);
+    inspectedFileData.set(file, data);
+    const workbook = XLSX.read(data, { type: data instanceof ArrayBuffer ? 'array' : 'binary', sheetRows: sampleRowCount });
+
+    const sheets = workbook.SheetNames.map((name, index): SheetSummary => {
+      const sheet = workbook.Sheets[name];
+      // With sheetRows set, the full extent of the sheet is kept in !fullref
+      const ref = (sheet?.['!fullref'] ?? sheet?.['!ref']) as string | undefined;
+      const range = ref ? XLSX.utils.decode_range(ref) : undefined;
+      const rows: SpreadsheetMatrix = sheet ? XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '' }) : [];
+      return {
+        name,
+        index,
+        rowCount: range ? range.e.r + 1 : 0,
+        columnCount: range ? range.e.c + 1 : 0,
+        sampleRows: rows
+          .slice(0, sampleRowCount)
+          .map(row => (securityConfig.sanitizeData ? row.map(sanitizeCellValue) : row))
+      };
+    });
+
+    return { fileName: file.name, sheets };
+  } catch (error) {
+    throw toSecureError(error, isTestMode);
+  }
+};
+
+/**
+ * Streams a spreadsheet as batches of shaped rows for files too large to hold in memory.
+ * CSV files are parsed chunk by chunk; workbook formats are walked row by row.
+ * Honours `headerRow`, `dataStartRow`, `omitHeader` and `sanitizeData` like SpreadSheetService.
+ */
+export async function* iterateRows(
+  file: File,
+  config: SpreadsheetConfig = {},
+  clientId = 'default'
+): AsyncGenerator<Record<string, CellValue>[]> {
+  const isTestMode = isTestEnvironment();
+  if (isTestMode) {
+    config = withTestModeOverrides(config);
+  }
+
+  const securityConfig = { ...DEFAULT_SECURITY_CONFIG, ...config.security };
+  const performanceConfig = { ...DEFAULT_PERFORMANCE_CONFIG, ...config.performance };
+
+  try {
+    // Streaming has no result object to carry warnings, so they are logged
+    const warnings = preflightFile(file, securityConfig, clientId);
+    if (warnings.length > 0) {
+      console.warn('File processing warnings:', warnings);
+    }
+
+    let source: AsyncIterable<SpreadsheetRow>;
+    let merges: CellRange[] = [];
+    if (file.name.toLowerCase().endsWith('.csv')) {
+      source = readCsvRows(file, performanceConfig.chunkSize, performanceConfig.onProgress);
+    } else {
+      const data = await readFileChunked(file, performanceConfig.chunkSize, undefined, performanceConfig.onProgress);
+      const workbook = XLSX.read(data, { type: 'array' });
+      const sheet = workbook.Sheets[resolveSheetName(workbook, config.sheet ?? 0)];
+      if (!sheet) {
+        throw new Error('Sheet data not accessible');
+      }
+      source = readSheetRows(sheet);
+      merges = getMatrixMerges(sheet);
+    }
+
+    yield* shapeRowBatches(source, config, securityConfig.sanitizeData, Math.max(1, performanceConfig.batchSize), merges);
+  } catch (error) {
+    throw toSecureError(error, isTestMode);
+  }
+}
+
 export default SpreadSheetService; 
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { runAsyncValidators, createAsyncValidationCache } from './asyncValidation';
+import { describe, it, expect, vi } from 'vitest';
+import type { MappingOption } from './types';
+
+describe('runAsyncValidators', () => {
+  const map = [{ field: 'Customer', value: 'customerId' }];
+  const knownIds = ['C1', 'C2'];
+  const lookup = (values: unknown[]) =>
+    Promise.resolve(values.map(value => (knownIds.includes(String(value)) ? undefined : 'unknown customer')));
+
+  it('should send each distinct value once and report failing cells', async () => {
+    const validateAsync = vi.fn(lookup);
+    const options: MappingOption[] = [{ label: 'Customer', value: 'customerId', validation: { validateAsync } }];
+    const rows = [{ Customer: 'C1' }, { Customer: 'C9' }, { Customer: 'C9' }, { Customer: '' }];
+
+    const errors = await runAsyncValidators(rows, rows, map, options, createAsyncValidationCache());
+
+    expect(validateAsync).toHaveBeenCalledTimes(1);
+    expect(validateAsync).toHaveBeenCalledWith(['C1', 'C9']);
+    expect(errors).toEqual([
+      expect.objectContaining({ message: 'Row 2, Customer: unknown customer', rowIndex: 1, column: 'Customer', cellValue: 'C9' }),
+      expect.objectContaining({ message: 'Row 3, Customer: unknown customer', rowIndex: 2 })
+    ]);
+  });
+
+  it('should batch values and limit concurrent calls', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const validateAsync = vi.fn(async (values: unknown[]) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      inFlight--;
+      return values.map(() => undefined);
+    });
+    const options: MappingOption[] = [{ label: 'Customer', value: 'customerId', validation: { validateAsync } }];
+    const rows = Array.from({ length: 10 }, (_, index) => ({ Customer: `C${index}` }));
+
+    await runAsyncValidators(rows, rows, map, options, createAsyncValidationCache(), { batchSize: 2, concurrency: 2 });
+
+    expect(validateAsync).toHaveBeenCalledTimes(5);
+    expect(validateAsync.mock.calls[0]?.[0]).toEqual(['C0', 'C1']);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should reuse cached results across runs', async () => {
+    const validateAsync = vi.fn(lookup);
+    const options: MappingOption[] = [{ label: 'Customer', value: 'customerId', validation: { validateAsync } }];
+    const cache = createAsyncValidationCache();
+
+    await runAsyncValidators([{ Customer: 'C1' }], [{ Customer: 'C1' }], map, options, cache);
+    const errors = await runAsyncValidators([{ Customer: 'C1' }, { Customer: 'C5' }], [{ Customer: 'C1' }, { Customer: 'C5' }], map, options, cache);
+
+    expect(validateAsync).toHaveBeenCalledTimes(2);
+    expect(validateAsync.mock.calls[1]?.[0]).toEqual(['C5']);
+    expect(errors.map(error => error.rowIndex)).toEqual([1]);
+  });
+
+  it('should report a rejected lookup once per column without caching it', async () => {
+    const validateAsync = vi.fn().mockRejectedValue(new Error('lookup service unavailable'));
+    const options: MappingOption[] = [{ label: 'Customer', value: 'customerId', validation: { validateAsync } }];
+    const cache = createAsyncValidationCache();
+    const rows = [{ Customer: 'C1' }, { Customer: 'C2' }];
+
+    const errors = await runAsyncValidators(rows, rows, map, options, cache, { batchSize: 1 });
+
+    expect(errors).toEqual([
+      { option: options[0], message: 'Customer: lookup service unavailable', type: 'validation', severity: 'error', value: 'customerId' }
+    ]);
+    expect(cache.get('customerId')?.size).toBe(0);
+  });
+});
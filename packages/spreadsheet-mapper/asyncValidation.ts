@@ -0,0 +1,134 @@
+import { isEmptyCell } from './fieldTypes';
+import { createCellError } from './mappedRows';
+import type { AsyncValidationCache, AsyncValidationConfig, FieldValidation, MappedField, MappingError, MappingOption } from './types';
+
+const DEFAULT_ASYNC_VALIDATION_CONFIG: Required<AsyncValidationConfig> = {
+  batchSize: 500,
+  concurrency: 4
+};
+
+// One `validateAsync` call for a slice of a column's distinct values
+interface ValidationBatch {
+  option: MappingOption;
+  validate: NonNullable<FieldValidation['validateAsync']>;
+  values: unknown[];
+}
+
+/**
+ * Cache key for a coerced cell value; dates compare by instant
+ */
+const toCacheKey = (value: unknown): string =>
+  value instanceof Date ? value.toISOString() : `${typeof value}:${String(value)}`;
+
+/**
+ * Runs tasks with at most `limit` of them in flight at once
+ */
+const runWithConcurrency = async (tasks: (() => Promise<void>)[], limit: number): Promise<void> => {
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < tasks.length) {
+      const task = tasks[next++];
+      if (task) await task();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), tasks.length) }, worker));
+};
+
+/**
+ * Returns true when any mapped option declares a `validateAsync` check
+ */
+export const hasAsyncValidators = (map: MappedField[], options: MappingOption[]): boolean =>
+  options.some(option => option.validation?.validateAsync && map.some(item => item.value === option.value));
+
+/**
+ * Creates an empty cache for `validateAsync` results, shared between runs so values are only checked once
+ */
+export const createAsyncValidationCache = (): AsyncValidationCache => new Map();
+
+/**
+ * Checks mapped columns with their options' `validateAsync` functions.
+ * Distinct, non-empty values not already in the cache are sent in batches, with a limit on concurrent calls.
+ * @param {Record<string, unknown>[]} rows - Coerced rows keyed by column name; these values are sent to the validators.
+ * @param {Record<string, unknown>[]} sourceRows - The same rows as read, used for `cellValue` in errors.
+ * @param {MappedField[]} map - Mappings for the file being finished.
+ * @param {MappingOption[]} options - Target options.
+ * @param {AsyncValidationCache} cache - Results from earlier runs; filled with the new results.
+ * @param {AsyncValidationConfig} [config] - Batch size and concurrency limit.
+ * @param {ReadonlySet<number>} [skippedRows] - Indexes of rows that will be dropped (e.g. duplicates); their values are not sent.
+ * @returns {Promise<MappingError[]>} One error per failing cell, plus one per column whose validator rejected.
+ */
+export const runAsyncValidators = async (
+  rows: Record<string, unknown>[],
+  sourceRows: Record<string, unknown>[],
+  map: MappedField[],
+  options: MappingOption[],
+  cache: AsyncValidationCache,
+  config: AsyncValidationConfig = {},
+  skippedRows: ReadonlySet<number> = new Set()
+): Promise<MappingError[]> => {
+  const { batchSize, concurrency } = { ...DEFAULT_ASYNC_VALIDATION_CONFIG, ...config };
+  const columns = options
+    .map(option => ({
+      option,
+      validate: option.validation?.validateAsync,
+      column: map.find(item => item.value === option.value)?.field
+    }))
+    .filter((entry): entry is Omit<ValidationBatch, 'values'> & { column: string } =>
+      entry.validate !== undefined && entry.column !== undefined);
+
+  const batches: ValidationBatch[] = [];
+  columns.forEach(({ option, validate, column }) => {
+    const cached = cache.get(option.value) ?? new Map<string, string | undefined>();
+    cache.set(option.value, cached);
+
+    const pending = new Map<string, unknown>();
+    rows.forEach((row, rowIndex) => {
+      const value = row[column];
+      const key = toCacheKey(value);
+      if (skippedRows.has(rowIndex) || isEmptyCell(value) || cached.has(key)) return;
+      pending.set(key, value);
+    });
+
+    const values = Array.from(pending.values());
+    for (let i = 0; i < values.length; i += batchSize) {
+      batches.push({ option, validate, values: values.slice(i, i + batchSize) });
+    }
+  });
+
+  const errors: MappingError[] = [];
+  const failedOptions = new Set<string>();
+
+  await runWithConcurrency(batches.map(({ option, validate, values }) => async () => {
+    try {
+      const messages = await validate(values);
+      const cached = cache.get(option.value);
+      values.forEach((value, index) => {
+        cached?.set(toCacheKey(value), messages[index] || undefined);
+      });
+    } catch (error) {
+      // Failed lookups are not cached, so the next run retries them
+      if (failedOptions.has(option.value)) return;
+      failedOptions.add(option.value);
+      errors.push({
+        option,
+        message: `${option.label}: ${error instanceof Error ? error.message : 'values could not be validated'}`,
+        type: 'validation',
+        severity: 'error',
+        value: option.value
+      });
+    }
+  }), concurrency);
+
+  columns.forEach(({ option, column }) => {
+    const cached = cache.get(option.value);
+    rows.forEach((row, rowIndex) => {
+      if (skippedRows.has(rowIndex)) return;
+      const message = cached?.get(toCacheKey(row[column]));
+      if (message) {
+        errors.push(createCellError(option, column, rowIndex, sourceRows[rowIndex]?.[column], message, option.validation?.severity));
+      }
+    });
+  });
+
+  return errors;
+};
@@ -0,0 +1,57 @@
+import { suggestMappings, scoreColumnMatch, isUnconfirmedSuggestion } from './columnMatching';
+import { describe, it, expect } from 'vitest';
+
+describe('columnMatching', () => {
+  const options = [
+    { label: 'Email', value: 'email', aliases: ['E-mail', 'Email Address'] },
+    { label: 'First Name', value: 'firstName' },
+    { label: 'Phone', value: 'phone', aliases: ['Mobile', 'Tel'] }
+  ];
+
+  describe('scoreColumnMatch', () => {
+    it('should score exact label, value and alias matches as 1', () => {
+      expect(scoreColumnMatch('EMAIL', options[0]!)).toBe(1);
+      expect(scoreColumnMatch('first_name', options[1]!)).toBe(1);
+      expect(scoreColumnMatch('e-mail address', options[0]!)).toBe(1);
+    });
+
+    it('should score near misses below 1 and unrelated columns low', () => {
+      const nearMiss = scoreColumnMatch('Frist Name', options[1]!);
+
+      expect(nearMiss).toBeGreaterThan(0.6);
+      expect(nearMiss).toBeLessThan(1);
+      expect(scoreColumnMatch('Postcode', options[1]!)).toBeLessThan(0.3);
+    });
+  });
+
+  describe('suggestMappings', () => {
+    it('should propose unsaved mappings with confidence scores', () => {
+      const suggestions = suggestMappings(['E-mail', 'First name', 'Mobile', 'Notes'], options);
+
+      expect(suggestions).toEqual([
+        { field: 'E-mail', value: 'email', saved: false, confidence: 1 },
+        { field: 'First name', value: 'firstName', saved: false, confidence: 1 },
+        { field: 'Mobile', value: 'phone', saved: false, confidence: 1 }
+      ]);
+    });
+
+    it('should use each column and option at most once, preferring the best score', () => {
+      const suggestions = suggestMappings(['Email Addr', 'Email'], options);
+
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0]).toMatchObject({ field: 'Email', value: 'email' });
+    });
+
+    it('should omit matches below the threshold', () => {
+      expect(suggestMappings(['Frist Name'], options, 0.95)).toEqual([]);
+    });
+  });
+
+  describe('isUnconfirmedSuggestion', () => {
+    it('should flag suggestions until they are saved', () => {
+      expect(isUnconfirmedSuggestion({ field: 'E-mail', value: 'email', saved: false, confidence: 0.7 })).toBe(true);
+      expect(isUnconfirmedSuggestion({ field: 'E-mail', value: 'email', saved: true, confidence: 0.7 })).toBe(false);
+      expect(isUnconfirmedSuggestion({ field: 'E-mail', value: 'email' })).toBe(false);
+    });
+  });
+});
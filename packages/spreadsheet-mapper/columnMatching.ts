@@ -0,0 +1,125 @@
+import type { MappedField, MappingOption } from './types';
+
+// Default minimum confidence for a suggestion to be proposed
+const DEFAULT_MATCH_THRESHOLD = 0.6;
+
+/**
+ * Splits a header or option name into lowercase word tokens ("E-mail Address" → ["e", "mail", "address"])
+ */
+const tokenize = (text: string): string[] =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2') // camelCase → camel Case
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+/**
+ * Collects the set of adjacent character pairs in a string
+ */
+const bigrams = (text: string): Map<string, number> => {
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.substring(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+  }
+  return pairs;
+};
+
+/**
+ * Dice coefficient over character bigrams, tolerant of typos and abbreviations
+ */
+const diceCoefficient = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const aPairs = bigrams(a);
+  const bPairs = bigrams(b);
+  let overlap = 0;
+  aPairs.forEach((count, pair) => {
+    overlap += Math.min(count, bPairs.get(pair) ?? 0);
+  });
+  return (2 * overlap) / (a.length - 1 + b.length - 1);
+};
+
+/**
+ * Share of tokens the two names have in common, tolerant of word order
+ */
+const tokenOverlap = (a: string[], b: string[]): number => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const shared = a.filter(token => b.includes(token)).length;
+  return (2 * shared) / (a.length + b.length);
+};
+
+/**
+ * Scores how likely a column header refers to a mapping option, from 0 to 1.
+ * Compares against the option's label, value and aliases and keeps the best score.
+ */
+export const scoreColumnMatch = (column: string, option: MappingOption): number => {
+  const columnTokens = tokenize(column);
+  const columnCompact = columnTokens.join('');
+  const candidates = [option.label, option.value, ...(option.aliases ?? [])];
+
+  return candidates.reduce((best, candidate) => {
+    const candidateTokens = tokenize(candidate);
+    const candidateCompact = candidateTokens.join('');
+    if (!candidateCompact || !columnCompact) return best;
+    if (candidateCompact === columnCompact) return 1;
+
+    const score = Math.max(
+      diceCoefficient(columnCompact, candidateCompact),
+      tokenOverlap(columnTokens, candidateTokens)
+    );
+    return Math.max(best, score);
+  }, 0);
+};
+
+/**
+ * Proposes unsaved mappings from spreadsheet columns to mapping options.
+ * Pairs are assigned greedily by confidence so each column and option is used at most once.
+ * @param {string[]} columns - Column headers available for mapping.
+ * @param {MappingOption[]} options - Options still waiting for a column.
+ * @param {number} [threshold] - Minimum confidence for a suggestion (default: 0.6).
+ * @returns {MappedField[]} Suggestions carrying a `confidence` score, highest first.
+ */
+export const suggestMappings = (
+  columns: string[],
+  options: MappingOption[],
+  threshold: number = DEFAULT_MATCH_THRESHOLD
+): MappedField[] => {
+  const candidates: { column: string; option: MappingOption; score: number }[] = [];
+  options.forEach((option) => {
+    columns.forEach((column) => {
+      const score = scoreColumnMatch(column, option);
+      if (score >= threshold) {
+        candidates.push({ column, option, score });
+      }
+    });
+  });
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const usedColumns = new Set<string>();
+  const usedOptions = new Set<string>();
+  const suggestions: MappedField[] = [];
+
+  candidates.forEach(({ column, option, score }) => {
+    if (usedColumns.has(column) || usedOptions.has(option.value)) return;
+    usedColumns.add(column);
+    usedOptions.add(option.value);
+    suggestions.push({
+      field: column,
+      value: option.value,
+      saved: false,
+      confidence: Math.round(score * 100) / 100
+    });
+  });
+
+  return suggestions;
+};
+
+/**
+ * Whether a mapping is a suggestion the user has not confirmed with `save`.
+ * These are left out when finishing, so a guess nobody checked is never imported.
+ */
+export const isUnconfirmedSuggestion = (item: MappedField): boolean =>
+  item.confidence !== undefined && !item.saved;
@@ -0,0 +1,98 @@
+import {
+  combineColumns,
+  combineValues,
+  findSharedColumns,
+  getMappedColumns,
+  separateSharedColumns
+} from './combinedColumns';
+import { describe, it, expect } from 'vitest';
+
+describe('combinedColumns', () => {
+  const fullName = { field: 'First + Last', value: 'fullName', fields: ['First', 'Last'] };
+  const address = {
+    field: 'Address',
+    value: 'address',
+    fields: ['Street', 'City', 'Zip'],
+    template: '{Street}, {City} {Zip}'
+  };
+
+  describe('combineValues', () => {
+    it('should join non-empty values with the separator', () => {
+      expect(combineValues({ First: ' Ada ', Last: 'Lovelace' }, fullName)).toBe('Ada Lovelace');
+      expect(combineValues({ First: 'Ada', Last: '' }, fullName)).toBe('Ada');
+      expect(combineValues({ First: 'Lovelace', Last: 'Ada' }, { ...fullName, separator: ', ' })).toBe('Lovelace, Ada');
+    });
+
+    it('should fill in a template by column name', () => {
+      expect(combineValues({ Street: '1 Main St', City: 'Wellington', Zip: 6011 }, address))
+        .toBe('1 Main St, Wellington 6011');
+    });
+
+    it('should return an empty string when every source cell is empty', () => {
+      expect(combineValues({ First: '', Last: null }, fullName)).toBe('');
+      expect(combineValues({}, address)).toBe('');
+    });
+
+    it('should copy a single column as is', () => {
+      expect(combineValues({ Age: 42 }, { field: 'Age copy', value: 'age', fields: ['Age'] })).toBe(42);
+    });
+
+    it('should read the field of a single-column mapping', () => {
+      expect(combineValues({ Email: 'ada@example.com' }, { field: 'Email', value: 'email' })).toBe('ada@example.com');
+    });
+  });
+
+  describe('combineColumns', () => {
+    it('should add combined values under the mapping field', () => {
+      const rows = [{ First: 'Ada', Last: 'Lovelace', Email: 'ada@example.com' }];
+
+      expect(combineColumns(rows, [fullName, { field: 'Email', value: 'email' }])).toEqual([
+        { First: 'Ada', Last: 'Lovelace', Email: 'ada@example.com', 'First + Last': 'Ada Lovelace' }
+      ]);
+      expect(rows[0]).not.toHaveProperty('First + Last');
+    });
+
+    it('should return the same rows when nothing is combined', () => {
+      const rows = [{ Email: 'ada@example.com' }];
+      expect(combineColumns(rows, [{ field: 'Email', value: 'email' }])).toBe(rows);
+    });
+  });
+
+  describe('getMappedColumns', () => {
+    it('should include every column consumed by a combined mapping', () => {
+      expect(getMappedColumns([fullName, address, { field: 'First', value: 'firstName' }]))
+        .toEqual(['First', 'Last', 'Street', 'City', 'Zip']);
+    });
+  });
+
+  describe('findSharedColumns', () => {
+    it('should report columns read by more than one mapping, except through splits', () => {
+      const email = { field: 'Email', value: 'email' };
+      const username = { field: 'Email', value: 'username' };
+      const first = { field: 'First', value: 'firstName' };
+      const split = { field: 'Given', value: 'given', fields: ['Full Name'], split: { delimiter: ' ' } };
+      const family = { field: 'Family', value: 'family', fields: ['Full Name'], split: { delimiter: ' ' }, part: 1 };
+
+      expect(findSharedColumns([email, username, first, fullName, split, family])).toEqual([
+        { column: 'Email', mappings: [email, username] },
+        { column: 'First', mappings: [first, fullName] }
+      ]);
+    });
+  });
+
+  describe('separateSharedColumns', () => {
+    it('should give each extra mapping of a column its own copy', () => {
+      const map = [
+        { field: 'Email', value: 'email' },
+        { field: 'Email', value: 'username', saved: true },
+        { field: 'Name', value: 'name' }
+      ];
+
+      expect(separateSharedColumns(map)).toEqual([
+        { field: 'Email', value: 'email' },
+        { field: 'Email → username', value: 'username', saved: true, fields: ['Email'] },
+        { field: 'Name', value: 'name' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { isEmptyCell } from './fieldTypes';
+import { getSplitPart } from './splitColumns';
+import type { CoercionResult } from './fieldTypes';
+import type { MappedField } from './types';
+
+/**
+ * Returns the source columns a mapping reads: its `fields` for a combined mapping, otherwise its `field`
+ */
+export const getSourceColumns = (mapping: MappedField): string[] => mapping.fields ?? [mapping.field];
+
+/**
+ * Returns every source column consumed by the given mappings, e.g. to hide them from column pickers
+ */
+export const getMappedColumns = (map: MappedField[]): string[] =>
+  Array.from(new Set(map.reduce<string[]>((columns, mapping) => columns.concat(getSourceColumns(mapping)), [])));
+
+/**
+ * Finds columns read by more than one mapping. Split mappings are left out, as sharing a column is what they are for.
+ */
+export const findSharedColumns = (map: MappedField[]): { column: string; mappings: MappedField[] }[] => {
+  const readers = new Map<string, MappedField[]>();
+  map.filter(mapping => !mapping.split).forEach((mapping) => {
+    getSourceColumns(mapping).forEach((column) => {
+      readers.set(column, (readers.get(column) ?? []).concat(mapping));
+    });
+  });
+  return Array.from(readers.entries())
+    .filter(([, mappings]) => mappings.length > 1)
+    .map(([column, mappings]) => ({ column, mappings }));
+};
+
+/**
+ * Points each mapping after the first that reads a column directly at its own copy of the column ("Email → username"),
+ * so every option transforms, coerces and validates its own value
+ */
+export const separateSharedColumns = (map: MappedField[]): MappedField[] => {
+  const seen = new Set<string>();
+  return map.map((mapping) => {
+    if (mapping.fields) return mapping;
+    if (!seen.has(mapping.field)) {
+      seen.add(mapping.field);
+      return mapping;
+    }
+    return { ...mapping, field: `${mapping.field} → ${mapping.value}`, fields: [mapping.field] };
+  });
+};
+
+/**
+ * Builds a combined mapping's value from a row: the template filled in, or the non-empty values joined by the separator.
+ * Returns '' when every source cell is empty, so required checks and `defaultValue` still apply; a copy of one column returns its value as is.
+ */
+export const combineValues = (row: Record<string, unknown>, mapping: MappedField): unknown => {
+  const columns = mapping.fields;
+  if (!columns) {
+    return row[mapping.field];
+  }
+  // A single column without a template is a plain copy, so the value keeps its type
+  const [only] = columns;
+  if (only !== undefined && columns.length === 1 && mapping.template === undefined) {
+    return row[only];
+  }
+  if (columns.every(column => isEmptyCell(row[column]))) {
+    return '';
+  }
+
+  if (mapping.template !== undefined) {
+    return mapping.template.replace(/\{([^{}]+)\}/g, (_, column: string) =>
+      (isEmptyCell(row[column]) ? '' : String(row[column]).trim()));
+  }
+
+  return columns
+    .filter(column => !isEmptyCell(row[column]))
+    .map(column => String(row[column]).trim())
+    .join(mapping.separator ?? ' ');
+};
+
+/**
+ * Reads a mapping's value from a row: its column, the combined `fields`, or the chosen part of a split.
+ * Fails only when a split rule can't break up a non-empty value.
+ */
+export const readMappedValue = (row: Record<string, unknown>, mapping: MappedField): CoercionResult => {
+  const value = combineValues(row, mapping);
+  return mapping.split ? getSplitPart(value, mapping.split, mapping.part, row) : { ok: true, value };
+};
+
+/**
+ * Adds each combined or split mapping's value to the rows under its `field`, so later steps read it like any other column.
+ * Values that fail to split are left undefined; processMappedRows reports them.
+ * @returns {Record<string, unknown>[]} Copies of the rows with derived values, or the same array when no mapping has `fields`.
+ */
+export const combineColumns = (rows: Record<string, unknown>[], map: MappedField[]): Record<string, unknown>[] => {
+  const combined = map.filter(mapping => mapping.fields);
+  if (combined.length === 0) {
+    return rows;
+  }
+
+  return rows.map((row) => {
+    const result = { ...row };
+    combined.forEach((mapping) => {
+      const derived = readMappedValue(row, mapping);
+      result[mapping.field] = derived.ok ? derived.value : undefined;
+    });
+    return result;
+  });
+};
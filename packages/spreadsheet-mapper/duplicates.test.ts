@@ -0,0 +1,74 @@
+import { checkDuplicates } from './duplicates';
+import { describe, it, expect } from 'vitest';
+import type { DuplicateSource, MappingOption } from './types';
+
+describe('checkDuplicates', () => {
+  const options: MappingOption[] = [
+    { label: 'Email', value: 'email', type: 'email', unique: true },
+    { label: 'Name', value: 'name' }
+  ];
+  const contacts: DuplicateSource = {
+    fileName: 'contacts.csv',
+    rows: [
+      { 'E-mail': 'bob@example.com', Name: 'Bob' },
+      { 'E-mail': 'amy@example.com', Name: 'Amy' },
+      { 'E-mail': ' Bob@Example.com', Name: 'Robert' },
+      { 'E-mail': '', Name: 'Nobody' },
+      { 'E-mail': '', Name: 'Nobody either' }
+    ],
+    map: [{ field: 'E-mail', value: 'email' }, { field: 'Name', value: 'name' }]
+  };
+  const extra: DuplicateSource = {
+    fileName: 'extra.csv',
+    rows: [{ Email: 'amy@example.com' }],
+    map: [{ field: 'Email', value: 'email' }]
+  };
+
+  it('should flag every duplicate row with the locations it conflicts with', () => {
+    const { errors, droppedRows } = checkDuplicates([contacts], 'contacts.csv', options, 'error');
+
+    expect(droppedRows).toEqual([]);
+    expect(errors).toEqual([
+      {
+        option: options[0],
+        message: "Row 1, Email: 'bob@example.com' is also in row 3",
+        type: 'validation',
+        severity: 'error',
+        rowIndex: 0,
+        column: 'E-mail',
+        value: 'email',
+        cellValue: 'bob@example.com',
+        conflicts: [{ fileName: 'contacts.csv', rowIndex: 2 }]
+      },
+      expect.objectContaining({
+        message: "Row 3, Email: 'Bob@Example.com' is also in row 1",
+        rowIndex: 2,
+        conflicts: [{ fileName: 'contacts.csv', rowIndex: 0 }]
+      })
+    ]);
+  });
+
+  it('should detect duplicates across files', () => {
+    const { errors } = checkDuplicates([contacts, extra], 'extra.csv', options, 'warn');
+
+    expect(errors).toEqual([
+      expect.objectContaining({
+        message: "Row 1, Email: 'amy@example.com' is also in row 2 of contacts.csv",
+        rowIndex: 0,
+        column: 'Email',
+        conflicts: [{ fileName: 'contacts.csv', rowIndex: 1 }]
+      })
+    ]);
+  });
+
+  it('should drop all but the first or last occurrence', () => {
+    expect(checkDuplicates([contacts, extra], 'contacts.csv', options, 'keepFirst')).toEqual({ errors: [], droppedRows: [2] });
+    expect(checkDuplicates([contacts, extra], 'contacts.csv', options, 'keepLast')).toEqual({ errors: [], droppedRows: [0, 1] });
+  });
+
+  it('should ignore files that do not map the unique option', () => {
+    const unmapped = { ...contacts, map: [{ field: 'Name', value: 'name' }] };
+
+    expect(checkDuplicates([unmapped], 'contacts.csv', options, 'error').errors).toEqual([]);
+  });
+});
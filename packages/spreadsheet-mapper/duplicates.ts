@@ -0,0 +1,109 @@
+import { coerceValue, isEmptyCell } from './fieldTypes';
+import { applyTransforms, applyValueMap } from './transforms';
+import type { DuplicateLocation, DuplicatePolicy, DuplicateSource, MappedField, MappingError, MappingOption } from './types';
+
+// A location plus the cell value found there
+interface Occurrence extends DuplicateLocation {
+  cellValue: unknown;
+}
+
+/**
+ * Normalizes a cell into a comparison key so "Bob@Example.com " and "bob@example.com" collide
+ */
+const toDuplicateKey = (
+  value: unknown,
+  option: MappingOption,
+  mapping: MappedField,
+  row: Record<string, unknown>
+): string | undefined => {
+  const transformed = applyTransforms(applyValueMap(value, mapping.values), option.transform, row);
+  if (isEmptyCell(transformed)) return undefined;
+  const coerced = coerceValue(transformed, option);
+  const normalized = coerced.ok ? coerced.value : transformed;
+  if (isEmptyCell(normalized)) return undefined;
+  if (normalized instanceof Date) return normalized.toISOString();
+  return String(normalized).trim().toLowerCase();
+};
+
+/**
+ * Describes where else a value appears, naming the file only when it differs
+ */
+const describeLocations = (locations: DuplicateLocation[], fileName: string): string =>
+  locations
+    .map(({ fileName: name, rowIndex }) => (name === fileName ? `row ${rowIndex + 1}` : `row ${rowIndex + 1} of ${name}`))
+    .join(', ');
+
+/**
+ * Finds rows of one file whose `unique` values also appear elsewhere in the dataset.
+ * Sources are compared in order, so "first" and "last" follow file order and then row order.
+ * @param {DuplicateSource[]} sources - Every processed file, including the one being finished.
+ * @param {string} fileName - The file being finished; errors and dropped rows refer to its rows.
+ * @param {MappingOption[]} options - Options; only those with `unique: true` are checked.
+ * @param {DuplicatePolicy} policy - How duplicates are handled.
+ * @returns One error per duplicate row (for 'error' and 'warn') and the row indexes to drop (for 'keepFirst' and 'keepLast').
+ */
+export const checkDuplicates = (
+  sources: DuplicateSource[],
+  fileName: string,
+  options: MappingOption[],
+  policy: DuplicatePolicy
+): { errors: MappingError[]; droppedRows: number[] } => {
+  const errors: MappingError[] = [];
+  const droppedRows = new Set<number>();
+
+  options.filter(option => option.unique).forEach((option) => {
+    const mappingIn = (source: DuplicateSource) => source.map.find(item => item.value === option.value);
+    const target = sources.find(source => source.fileName === fileName);
+    const column = target && mappingIn(target)?.field;
+    if (column === undefined) return;
+
+    const groups = new Map<string, Occurrence[]>();
+    sources.forEach((source) => {
+      const mapping = mappingIn(source);
+      if (mapping === undefined) return;
+
+      source.rows.forEach((row, rowIndex) => {
+        const cellValue = row[mapping.field];
+        const key = toDuplicateKey(cellValue, option, mapping, row);
+        if (key === undefined) return;
+        const group = groups.get(key) ?? [];
+        group.push({ fileName: source.fileName, rowIndex, cellValue });
+        groups.set(key, group);
+      });
+    });
+
+    groups.forEach((group) => {
+      if (group.length < 2) return;
+
+      if (policy === 'keepFirst' || policy === 'keepLast') {
+        const kept = policy === 'keepFirst' ? group[0] : group[group.length - 1];
+        group
+          .filter(occurrence => occurrence !== kept && occurrence.fileName === fileName)
+          .forEach(occurrence => droppedRows.add(occurrence.rowIndex));
+        return;
+      }
+
+      group
+        .filter(occurrence => occurrence.fileName === fileName)
+        .forEach(({ rowIndex, cellValue }) => {
+          const conflicts = group
+            .filter(other => other.fileName !== fileName || other.rowIndex !== rowIndex)
+            .map(other => ({ fileName: other.fileName, rowIndex: other.rowIndex }));
+          errors.push({
+            option,
+            message: `Row ${rowIndex + 1}, ${option.label}: '${String(cellValue).trim()}' is also in ${describeLocations(conflicts, fileName)}`,
+            type: 'validation',
+            severity: policy === 'warn' ? 'warning' : 'error',
+            rowIndex,
+            column,
+            value: option.value,
+            cellValue,
+            conflicts
+          });
+        });
+    });
+  });
+
+  errors.sort((a, b) => (a.rowIndex ?? 0) - (b.rowIndex ?? 0));
+  return { errors, droppedRows: Array.from(droppedRows).sort((a, b) => a - b) };
+};
@@ -0,0 +1,77 @@
+import { coerceValue, isEmptyCell } from './fieldTypes';
+import { describe, it, expect } from 'vitest';
+import type { MappingOption } from './types';
+
+describe('fieldTypes', () => {
+  const option = (overrides: Partial<MappingOption>): MappingOption => ({ label: 'Field', value: 'field', ...overrides });
+
+  describe('isEmptyCell', () => {
+    it('should treat missing and blank values as empty', () => {
+      expect(isEmptyCell(undefined)).toBe(true);
+      expect(isEmptyCell(null)).toBe(true);
+      expect(isEmptyCell('  ')).toBe(true);
+      expect(isEmptyCell(0)).toBe(false);
+    });
+  });
+
+  describe('coerceValue', () => {
+    it('should pass values through when no type is declared', () => {
+      expect(coerceValue(' 42 ', option({}))).toEqual({ ok: true, value: ' 42 ' });
+    });
+
+    it('should use the default value, or null, for empty cells', () => {
+      expect(coerceValue('', option({ type: 'integer', defaultValue: 1 }))).toEqual({ ok: true, value: 1 });
+      expect(coerceValue('', option({ type: 'number' }))).toEqual({ ok: true, value: null });
+      expect(coerceValue('', option({ type: 'string' }))).toEqual({ ok: true, value: '' });
+    });
+
+    it('should coerce numbers and integers', () => {
+      expect(coerceValue('3.5', option({ type: 'number' }))).toEqual({ ok: true, value: 3.5 });
+      expect(coerceValue(7, option({ type: 'integer' }))).toEqual({ ok: true, value: 7 });
+      expect(coerceValue('3.5', option({ type: 'integer' }))).toEqual({ ok: false, message: "'3.5' is not a whole number" });
+      expect(coerceValue('abc', option({ type: 'number' }))).toEqual({ ok: false, message: "'abc' is not a valid number" });
+    });
+
+    it('should accept only plain decimal numbers', () => {
+      expect(coerceValue('-.5', option({ type: 'number' }))).toEqual({ ok: true, value: -0.5 });
+      expect(coerceValue('1.2e3', option({ type: 'integer' }))).toEqual({ ok: true, value: 1200 });
+      for (const text of ['Infinity', '-Infinity', '1e400', '0x1F', '0b101', '1_000']) {
+        expect(coerceValue(text, option({ type: 'number' }))).toEqual({ ok: false, message: `'${text}' is not a valid number` });
+      }
+      expect(coerceValue(Infinity, option({ type: 'integer' })).ok).toBe(false);
+    });
+
+    it('should coerce common boolean spellings', () => {
+      expect(coerceValue('Yes', option({ type: 'boolean' }))).toEqual({ ok: true, value: true });
+      expect(coerceValue(0, option({ type: 'boolean' }))).toEqual({ ok: true, value: false });
+      expect(coerceValue('maybe', option({ type: 'boolean' })).ok).toBe(false);
+    });
+
+    it('should coerce Excel serial numbers and date strings', () => {
+      expect(coerceValue(45292, option({ type: 'date' }))).toEqual({ ok: true, value: new Date('2024-01-01T00:00:00Z') });
+      expect(coerceValue('2024-02-29', option({ type: 'date' }))).toEqual({ ok: true, value: new Date('2024-02-29') });
+      expect(coerceValue('not a date', option({ type: 'date' })).ok).toBe(false);
+    });
+
+    it('should accept only ISO and digit-only date strings', () => {
+      expect(coerceValue('2024-02-29T10:30:00Z', option({ type: 'date' }))).toEqual({ ok: true, value: new Date('2024-02-29T10:30:00Z') });
+      expect(coerceValue('1/31/2024', option({ type: 'date' }))).toEqual({ ok: true, value: new Date(2024, 0, 31) });
+      expect(coerceValue('12.5.2023', option({ type: 'date' }))).toEqual({ ok: true, value: new Date(2023, 11, 5) });
+      for (const text of ['N/A 3', 'Item 2', 'TBD 12', '5 Jan 2024', '2024-02-30', '2/30/2024', '1/5-2024']) {
+        expect(coerceValue(text, option({ type: 'date' }))).toEqual({ ok: false, message: `'${text}' is not a valid date` });
+      }
+    });
+
+    it('should validate emails', () => {
+      expect(coerceValue(' bob@example.com ', option({ type: 'email' }))).toEqual({ ok: true, value: 'bob@example.com' });
+      expect(coerceValue('bob@', option({ type: 'email' }))).toEqual({ ok: false, message: "'bob@' is not a valid email" });
+    });
+
+    it('should match enum values case-insensitively and emit the canonical value', () => {
+      const status = option({ type: 'enum', enum: ['Active', 'Inactive'] });
+
+      expect(coerceValue('active', status)).toEqual({ ok: true, value: 'Active' });
+      expect(coerceValue('Deleted', status)).toEqual({ ok: false, message: "'Deleted' is not one of Active, Inactive" });
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import type { MappingOption } from './types';
+
+// Pragmatic email check: something@something.tld, no whitespace
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Days between the Excel epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const MS_PER_DAY = 86400 * 1000;
+
+// Plain decimal numbers, optionally in exponent notation: 12, -3.5, .5, 1e3
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+// ISO dates (2024-01-31), optionally with a time and offset (2024-01-31T09:30:00Z)
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Digit-only dates read month first, as spreadsheets read them: 1/31/2024, 1-31-2024, 1.31.2024
+const NUMERIC_DATE_PATTERN = /^(\d{1,2})([/.-])(\d{1,2})\2(\d{4})$/;
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+export type CoercionResult =
+  | { ok: true; value: unknown }
+  | { ok: false; message: string };
+
+/**
+ * Treats missing cells and whitespace-only strings as empty
+ */
+export const isEmptyCell = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Whether the year, month and day name a real calendar day (no 31 February)
+ */
+const isCalendarDay = (year: number, month: number, day: number): boolean => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+/**
+ * Reads a date written as ISO or as digits only; anything else (`N/A 3`, `TBD 12`) is not a date
+ */
+const parseDateText = (text: string): Date | undefined => {
+  const iso = ISO_DATE_PATTERN.exec(text);
+  if (iso) {
+    return isCalendarDay(Number(iso[1]), Number(iso[2]), Number(iso[3])) ? new Date(text) : undefined;
+  }
+  const numeric = NUMERIC_DATE_PATTERN.exec(text);
+  if (numeric) {
+    const [year, month, day] = [Number(numeric[4]), Number(numeric[1]), Number(numeric[3])];
+    return isCalendarDay(year, month, day) ? new Date(year, month - 1, day) : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Converts a cell value to the option's declared type.
+ * Options without a `type` pass values through untouched; empty cells become `defaultValue` (or null).
+ */
+export const coerceValue = (value: unknown, option: MappingOption): CoercionResult => {
+  const { type } = option;
+  if (!type) {
+    return { ok: true, value };
+  }
+
+  if (isEmptyCell(value)) {
+    if (option.defaultValue !== undefined) {
+      return { ok: true, value: option.defaultValue };
+    }
+    return { ok: true, value: type === 'string' ? '' : null };
+  }
+
+  const text = String(value).trim();
+
+  switch (type) {
+    case 'string':
+      return { ok: true, value: String(value) };
+
+    case 'number':
+    case 'integer': {
+      // Number() would also take Infinity, hex (0x1F) and overflowing exponents (1e400)
+      const numeric = typeof value === 'number' ? value : NUMBER_PATTERN.test(text) ? Number(text) : NaN;
+      if (!Number.isFinite(numeric)) {
+        return { ok: false, message: `'${text}' is not a valid number` };
+      }
+      if (type === 'integer' && Math.floor(numeric) !== numeric) {
+        return { ok: false, message: `'${text}' is not a whole number` };
+      }
+      return { ok: true, value: numeric };
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') {
+        return { ok: true, value };
+      }
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { ok: true, value: true };
+      if (FALSE_VALUES.includes(lower)) return { ok: true, value: false };
+      return { ok: false, message: `'${text}' is not a valid yes/no value` };
+    }
+
+    case 'date': {
+      // Spreadsheet dates arrive as serial day numbers unless the cell held text
+      const date = typeof value === 'number'
+        ? new Date(Math.round((value - EXCEL_EPOCH_OFFSET_DAYS) * MS_PER_DAY))
+        : value instanceof Date ? value : parseDateText(text);
+      if (!date || isNaN(date.getTime())) {
+        return { ok: false, message: `'${text}' is not a valid date` };
+      }
+      return { ok: true, value: date };
+    }
+
+    case 'email':
+      if (!EMAIL_PATTERN.test(text)) {
+        return { ok: false, message: `'${text}' is not a valid email` };
+      }
+      return { ok: true, value: text };
+
+    case 'enum': {
+      const allowed = option.enum ?? [];
+      // Match case-insensitively but emit the canonical allowed value
+      const match = allowed.find(candidate => String(candidate).toLowerCase() === text.toLowerCase());
+      if (match === undefined) {
+        return { ok: false, message: `'${text}' is not one of ${allowed.map(String).join(', ')}` };
+      }
+      return { ok: true, value: match };
+    }
+
+    default:
+      return { ok: true, value };
+  }
+};
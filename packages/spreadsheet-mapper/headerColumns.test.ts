@@ -0,0 +1,68 @@
+import { buildHeaderColumns, toHeaderRange } from './headerColumns';
+import { describe, it, expect } from 'vitest';
+import type { CellRange } from './types';
+
+describe('buildHeaderColumns', () => {
+  // "Billing" spans B1:D1 above "Street", "City" and "Zip"; "Name" is merged down A1:A2
+  const matrix = [
+    ['Name', 'Billing', '', ''],
+    ['', 'Street', 'City', 'Zip'],
+    ['John', '1 Main St', 'Leeds', 'LS1']
+  ];
+  const merges: CellRange[] = [
+    { s: { r: 0, c: 1 }, e: { r: 0, c: 3 } },
+    { s: { r: 0, c: 0 }, e: { r: 1, c: 0 } }
+  ];
+
+  it('should join the levels of a header over several rows', () => {
+    expect(buildHeaderColumns(matrix, 0, 1, merges)).toEqual([
+      'Name',
+      'Billing / Street',
+      'Billing / City',
+      'Billing / Zip'
+    ]);
+  });
+
+  it('should leave merged columns empty above the first level without merges', () => {
+    expect(buildHeaderColumns(matrix, 0, 1)).toEqual(['Name', 'Billing / Street', 'City', 'Zip']);
+  });
+
+  it('should read a single header row from the top-left cell of a merge above it', () => {
+    expect(buildHeaderColumns(matrix, 1, 1, merges)).toEqual(['Name', 'Street', 'City', 'Zip']);
+  });
+
+  it('should name only the first column of a merge in a single header row', () => {
+    expect(buildHeaderColumns([['ID', 'Billing', '', '']], 0, 0, [{ s: { r: 0, c: 1 }, e: { r: 0, c: 3 } }])).toEqual([
+      'ID',
+      'Billing',
+      '',
+      ''
+    ]);
+  });
+
+  it('should number names that repeat', () => {
+    // Nothing below "Billing", so every column under it would be named "Billing"
+    const flat = [['ID', 'Billing', '', ''], ['', '', '', '']];
+    const billing: CellRange[] = [{ s: { r: 0, c: 1 }, e: { r: 0, c: 3 } }];
+
+    expect(buildHeaderColumns(flat, 0, 1, billing)).toEqual(['ID', 'Billing', 'Billing (2)', 'Billing (3)']);
+    expect(buildHeaderColumns([['Name', 'Name', 'Name (2)']], 0, 0)).toEqual(['Name', 'Name (2)', 'Name (2) (2)']);
+  });
+
+  it('should keep a single header row as it is without merges', () => {
+    expect(buildHeaderColumns([[' Name ', 42, '']], 0, 0)).toEqual([' Name ', '42', '']);
+  });
+
+  it('should limit the number of columns', () => {
+    const wide = [Array.from({ length: 150 }, (_, i) => `Column ${i}`)];
+
+    expect(buildHeaderColumns(wide, 0, 0)).toHaveLength(100);
+  });
+});
+
+describe('toHeaderRange', () => {
+  it('should treat a single row as a range of one', () => {
+    expect(toHeaderRange(3)).toEqual([3, 3]);
+    expect(toHeaderRange([1, 2])).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,81 @@
+import type { CellRange, CellValue, HeaderRowRange, SpreadsheetMatrix } from './types';
+
+// Joins the levels of a header spread over several rows ("Billing / City")
+export const HEADER_LEVEL_SEPARATOR = ' / ';
+
+// Columns are limited to prevent memory issues
+const MAX_COLUMNS = 100;
+
+/**
+ * Turns a `headerRow` setting into its first and last rows (1-based, inclusive)
+ */
+export const toHeaderRange = (headerRow: number | HeaderRowRange): HeaderRowRange =>
+  typeof headerRow === 'number' ? [headerRow, headerRow] : headerRow;
+
+/**
+ * Reads a cell, taking a merged region's value from its top-left cell, as spreadsheet apps display it.
+ * With `across` false, only the merge's first column gets the value, so a header cell spanning columns names one of them.
+ */
+const readMergedCell = (
+  matrix: SpreadsheetMatrix,
+  row: number,
+  column: number,
+  merges: CellRange[],
+  across = true
+): CellValue | undefined => {
+  const merge = merges.find(({ s, e }) => row >= s.r && row <= e.r && column >= s.c && column <= e.c);
+  return merge && (across || column === merge.s.c) ? matrix[merge.s.r]?.[merge.s.c] : matrix[row]?.[column];
+};
+
+/**
+ * Numbers repeated column names ("Billing", "Billing (2)") so each column keeps its own key in shaped rows
+ */
+const makeNamesUnique = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map((name) => {
+    if (!name) return name;
+    let unique = name;
+    for (let count = 2; used.has(unique); count++) {
+      unique = `${name} (${count})`;
+    }
+    used.add(unique);
+    return unique;
+  });
+};
+
+/**
+ * Builds column names from one or more header rows. Over several rows, merged cells repeat their value across the region,
+ * so a "Billing" cell spanning three columns above "Street", "City" and "Zip" gives "Billing / City".
+ * Empty levels are skipped, and a level repeated by a cell merged down the rows ("Name" over two rows) appears once.
+ * A single header row names only the first column of a merge. Names that still repeat are numbered: "Billing", "Billing (2)".
+ * @param {SpreadsheetMatrix} matrix - The sheet's rows.
+ * @param {number} first - Index of the first header row in the matrix.
+ * @param {number} last - Index of the last header row in the matrix.
+ * @param {CellRange[]} merges - Merged regions, in the matrix's row and column indexes.
+ */
+export const buildHeaderColumns = (
+  matrix: SpreadsheetMatrix,
+  first: number,
+  last: number,
+  merges: CellRange[] = []
+): string[] => {
+  const width = Math.min(Math.max(0, ...matrix.slice(first, last + 1).map(row => row.length)), MAX_COLUMNS);
+
+  return makeNamesUnique(Array.from({ length: width }, (_, column) => {
+    // A single header row keeps its names as they are
+    if (first === last) {
+      const value = readMergedCell(matrix, first, column, merges, false);
+      return value === undefined || value === null ? '' : String(value);
+    }
+
+    const levels: string[] = [];
+    for (let row = first; row <= last; row++) {
+      const value = readMergedCell(matrix, row, column, merges);
+      const text = value === undefined || value === null ? '' : String(value).trim();
+      if (text && levels[levels.length - 1] !== text) {
+        levels.push(text);
+      }
+    }
+    return levels.join(HEADER_LEVEL_SEPARATOR);
+  }));
+};
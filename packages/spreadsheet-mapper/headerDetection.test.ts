@@ -0,0 +1,73 @@
+import { detectHeaderRow } from './headerDetection';
+import { describe, it, expect } from 'vitest';
+
+describe('detectHeaderRow', () => {
+  it('should pick the first row of a plain sheet', () => {
+    expect(detectHeaderRow([
+      ['Name', 'Age', 'Joined'],
+      ['John', 25, '2024-01-05'],
+      ['Jane', 30, '2024-02-11']
+    ]).row).toBe(1);
+  });
+
+  it('should skip title banners and notes above the header', () => {
+    const detection = detectHeaderRow([
+      ['Quarterly sales', '', '', ''],
+      ['Exported by finance', '', '', ''],
+      ['', '', '', ''],
+      ['Region', 'Units', 'Revenue', 'Margin'],
+      ['North', 120, 5400.5, '12%'],
+      ['South', 80, 3100, '9%']
+    ]);
+
+    expect(detection.row).toBe(4);
+    expect(detection.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('should not pick a row of notes right above the header', () => {
+    const detection = detectHeaderRow([
+      ['Exported by', 'admin', 'on', 'Monday'],
+      ['Name', 'Email', 'Age', 'Score'],
+      ['Ann', 'a@x.io', 30, 1],
+      ['Ben', 'b@x.io', 41, 2]
+    ]);
+
+    expect(detection.row).toBe(2);
+    expect(detection.confidence).toBeGreaterThan(0.8);
+  });
+
+  it('should prefer a row of names over data rows holding numbers', () => {
+    expect(detectHeaderRow([
+      ['1', '2', '3'],
+      ['Item', 'Qty', 'Price'],
+      ['Pen', 2, 1.5],
+      ['Ink', '1,200', '3.20']
+    ]).row).toBe(2);
+  });
+
+  it('should take the earliest row when every row is text, with lower confidence', () => {
+    const detection = detectHeaderRow([
+      ['Name', 'Email'],
+      ['John', 'john@example.com'],
+      ['Jane', 'jane@example.com']
+    ]);
+
+    expect(detection.row).toBe(1);
+    expect(detection.confidence).toBeLessThan(0.8);
+  });
+
+  it('should score repeated names lower than distinct ones', () => {
+    const detection = detectHeaderRow([
+      ['Total', 'Total', 'Total'],
+      ['Store', 'Units', 'Revenue'],
+      ['Leeds', 4, 10]
+    ]);
+
+    expect(detection.row).toBe(2);
+  });
+
+  it('should fall back to the first row with no confidence for an empty sheet', () => {
+    expect(detectHeaderRow([])).toEqual({ row: 1, confidence: 0 });
+    expect(detectHeaderRow([['', ''], ['']])).toEqual({ row: 1, confidence: 0 });
+  });
+});
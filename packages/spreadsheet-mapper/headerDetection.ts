@@ -0,0 +1,87 @@
+import { isEmptyCell } from './fieldTypes';
+import type { HeaderDetection, SpreadsheetMatrix, SpreadsheetRow } from './types';
+
+// Rows considered as the header, and rows below each one compared with it
+const CANDIDATE_ROWS = 20;
+const SAMPLE_ROWS = 5;
+
+// Rows to read from the top of a sheet before detecting its header
+export const HEADER_SCAN_ROWS = CANDIDATE_ROWS + SAMPLE_ROWS;
+
+type CellKind = 'empty' | 'text' | 'number' | 'boolean' | 'date';
+
+/**
+ * Classifies a cell, treating numeric text ("1,200", "15%") as a number
+ */
+const cellKind = (value: unknown): CellKind => {
+  if (isEmptyCell(value)) return 'empty';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (value instanceof Date) return 'date';
+  return /^[-+]?[\d,]*\.?\d+%?$/.test(String(value).trim()) ? 'number' : 'text';
+};
+
+/**
+ * Counts cells up to the last non-empty one
+ */
+const usedWidth = (row: SpreadsheetRow): number => {
+  for (let i = row.length - 1; i >= 0; i--) {
+    if (!isEmptyCell(row[i])) return i + 1;
+  }
+  return 0;
+};
+
+/**
+ * Scores how much a row looks like a header (0-1): mostly filled, mostly text, no repeated names,
+ * and columns whose values below are of another type (a "Total" text cell above numbers).
+ * Only a row right above the data can contrast with it, so a row followed by an all-text row (a note above the header) gets none.
+ */
+const scoreRow = (rows: SpreadsheetMatrix, index: number, width: number): number => {
+  const cells = (rows[index] ?? []).slice(0, width);
+  const filled = cells.filter(cell => cellKind(cell) !== 'empty');
+  if (filled.length === 0) return 0;
+
+  const fill = filled.length / width;
+  const text = filled.filter(cell => cellKind(cell) === 'text').length / filled.length;
+  const distinct = new Set(filled.map(cell => String(cell).trim().toLowerCase())).size / filled.length;
+
+  const below = rows.slice(index + 1, index + 1 + SAMPLE_ROWS);
+  let compared = 0;
+  let contrasting = 0;
+  cells.forEach((cell, column) => {
+    const kinds = below.map(row => cellKind(row[column])).filter(kind => kind !== 'empty');
+    if (cellKind(cell) === 'empty' || kinds.length === 0) return;
+    compared++;
+    const nonText = kinds.filter(kind => kind !== 'text').length;
+    if (cellKind(cell) === 'text' && nonText > kinds.length / 2) contrasting++;
+  });
+  const next = rows.slice(index + 1).find(row => row.some(cell => cellKind(cell) !== 'empty'));
+  const nextIsText = next !== undefined && next.every(cell => isEmptyCell(cell) || cellKind(cell) === 'text');
+  const contrast = compared > 0 && !nextIsText ? contrasting / compared : 0;
+
+  return 0.3 * fill + 0.25 * text + 0.2 * distinct + 0.25 * contrast;
+};
+
+/**
+ * Picks the row of a sheet most likely to be its header, for `headerRow: 'auto'`.
+ * Title banners and notes score low for leaving most columns empty; data rows score low for numbers and dates.
+ * When only text is found (e.g. names and emails), the earliest of the equally scored rows is taken.
+ * @param {SpreadsheetMatrix} rows - The top of the sheet; only the first HEADER_SCAN_ROWS rows are used.
+ * @returns {HeaderDetection} The 1-based row and how header-like it looked, from 0 to 1.
+ */
+export const detectHeaderRow = (rows: SpreadsheetMatrix): HeaderDetection => {
+  const scanned = rows.slice(0, HEADER_SCAN_ROWS);
+  const width = Math.max(0, ...scanned.map(usedWidth));
+  let bestIndex = 0;
+  let bestScore = 0;
+  if (width > 0) {
+    scanned.slice(0, CANDIDATE_ROWS).forEach((_, index) => {
+      const score = scoreRow(scanned, index, width);
+      if (score > bestScore + 1e-9) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    });
+  }
+  return { row: bestIndex + 1, confidence: Math.round(bestScore * 100) / 100 };
+};
@@ -1,20 +1,79 @@
 export { default } from './useSpreadsheetMapper';
 export { default as useSpreadsheetMapper } from './useSpreadsheetMapper';
-export { default as SpreadSheetService } from './SpreadsheetService';
+export { default as SpreadSheetService, iterateRows, inspectWorkbook, processSheets } from './SpreadsheetService';
+export { suggestMappings, scoreColumnMatch, isUnconfirmedSuggestion } from './columnMatching';
+export { coerceValue } from './fieldTypes';
+export { validateValue, isBlockingError } from './validation';
+export { processMappedRows } from './mappedRows';
+export { applyTransforms, applyValueMap, transformRows } from './transforms';
+export { countDistinctValues, getAllowedValues } from './valueMapping';
+export { buildRecord, buildRecords, findPathConflicts } from './records';
+export {
+  combineColumns,
+  getMappedColumns,
+  getSourceColumns,
+  findSharedColumns,
+  separateSharedColumns
+} from './combinedColumns';
+export { splitValue } from './splitColumns';
+export { detectHeaderRow } from './headerDetection';
+export { buildHeaderColumns } from './headerColumns';
+export { checkDuplicates } from './duplicates';
+export { runAsyncValidators, createAsyncValidationCache } from './asyncValidation';
+export {
+  createHeaderFingerprint,
+  createMappingTemplate,
+  applyMappingTemplate,
+  createMemoryTemplateStore,
+  createLocalStorageTemplateStore
+} from './mappingTemplates';
 export type { 
   SpreadsheetConfig, 
   SpreadsheetData, 
   MappedField, 
+  MappedColumns,
+  SplitRule,
+  ValueMap,
+  DistinctValue,
   MappingOption, 
+  KeyedMappingOption,
+  RecordPath,
+  FieldType,
+  FieldValidation,
+  TransformStep,
+  AsyncValidationConfig,
+  AsyncValidationCache,
+  RowValidator,
+  RowIssue,
+  RowValidationContext,
   MappingError, 
+  ErrorSeverity,
+  DuplicatePolicy,
+  DuplicateLocation,
+  DuplicateSource,
   MappedData,
+  MappedResult,
+  OutputMode,
+  AutoMatchConfig,
+  MappingTemplate,
+  TemplateStore,
   CellValue,
   SpreadsheetRow,
   SpreadsheetMatrix,
+  SheetSummary,
+  WorkbookInfo,
+  HeaderDetection,
+  HeaderRowRange,
+  CellRange,
   PerformanceMetrics,
   SecurityConfig,
   PerformanceConfig,
+  ProcessingProgress,
   AccessibilityConfig,
   FileValidationResult,
-  RateLimitState
+  RateLimitState,
+  SpreadsheetParseOptions,
+  ParsedSpreadsheet,
+  WorkerParseRequest,
+  WorkerParseResponse
 } from './types'; 
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { processMappedRows } from './mappedRows';
+import { describe, it, expect } from 'vitest';
+import type { MappingOption } from './types';
+
+describe('processMappedRows', () => {
+  const options: MappingOption[] = [
+    { label: 'Quantity', value: 'quantity', type: 'integer', validation: { min: 1 } },
+    { label: 'Email', value: 'email', type: 'email' },
+    { label: 'Name', value: 'name' }
+  ];
+  const map = [
+    { field: 'Qty', value: 'quantity' },
+    { field: 'E-mail', value: 'email' },
+    { field: 'Product', value: 'name' }
+  ];
+
+  it('should coerce mapped columns and leave other columns untouched', () => {
+    const { rows, errors } = processMappedRows(
+      [{ Qty: '3', 'E-mail': 'a@example.com', Product: 'Widget', Notes: 'x' }],
+      map,
+      options
+    );
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([{ Qty: 3, 'E-mail': 'a@example.com', Product: 'Widget', Notes: 'x' }]);
+  });
+
+  it('should report each failing cell with its location', () => {
+    const { errors } = processMappedRows(
+      [
+        { Qty: '3', 'E-mail': 'a@example.com' },
+        { Qty: '0', 'E-mail': 'bob@' }
+      ],
+      map,
+      options
+    );
+
+    expect(errors).toEqual([
+      {
+        option: options[0],
+        message: "Row 2, Quantity: '0' is less than the minimum of 1",
+        type: 'validation',
+        severity: 'error',
+        rowIndex: 1,
+        column: 'Qty',
+        value: 'quantity',
+        cellValue: '0'
+      },
+      {
+        option: options[1],
+        message: "Row 2, Email: 'bob@' is not a valid email",
+        type: 'validation',
+        severity: 'error',
+        rowIndex: 1,
+        column: 'E-mail',
+        value: 'email',
+        cellValue: 'bob@'
+      }
+    ]);
+  });
+
+  it('should not validate cells that failed coercion or are empty', () => {
+    const { errors } = processMappedRows([{ Qty: 'lots' }, { Qty: '' }], map, options);
+
+    expect(errors.map(error => error.message)).toEqual(["Row 1, Quantity: 'lots' is not a valid number"]);
+  });
+
+  it('should return the rows unchanged when no option needs per-cell work', () => {
+    const rows = [{ Product: 'Widget' }];
+
+    expect(processMappedRows(rows, map, [{ label: 'Name', value: 'name' }]).rows).toBe(rows);
+  });
+
+  it('should transform cells before coercing and validating them', () => {
+    const { rows, errors } = processMappedRows(
+      [{ Phone: '(555) 010-9999' }, { Phone: 'n/a' }],
+      [{ field: 'Phone', value: 'phone' }],
+      [{ label: 'Phone', value: 'phone', transform: 'digitsOnly', validation: { minLength: 7 } }]
+    );
+
+    expect(rows).toEqual([{ Phone: '5550109999' }, { Phone: '' }]);
+    expect(errors).toEqual([]);
+  });
+
+  it('should run row validators against records keyed by option value', () => {
+    const { errors } = processMappedRows(
+      [{ Qty: '5', Product: 'Widget' }, { Qty: '2', Product: '' }],
+      map,
+      options,
+      [
+        (record, { rowIndex }) => (record['name'] ? undefined : `missing name on row ${rowIndex + 1}`),
+        (record) => (typeof record['quantity'] === 'number' && record['quantity'] > 4
+          ? { message: 'exceeds the per-order limit', field: 'quantity' }
+          : undefined)
+      ]
+    );
+
+    expect(errors).toEqual([
+      {
+        option: options[0],
+        message: 'Row 1, Quantity: exceeds the per-order limit',
+        type: 'validation',
+        severity: 'error',
+        rowIndex: 0,
+        column: 'Qty',
+        value: 'quantity',
+        cellValue: '5'
+      },
+      {
+        option: { label: 'Row 2', value: '' },
+        message: 'Row 2: missing name on row 2',
+        type: 'validation',
+        severity: 'error',
+        rowIndex: 1
+      }
+    ]);
+  });
+
+  it('should collect every issue a row validator returns', () => {
+    const { errors } = processMappedRows(
+      [{ Product: 'Widget' }],
+      map,
+      [{ label: 'Name', value: 'name' }],
+      [() => ['first problem', { message: 'second problem' }]]
+    );
+
+    expect(errors.map(error => error.message)).toEqual(['Row 1: first problem', 'Row 1: second problem']);
+  });
+
+  it('should report values a split mapping cannot break up', () => {
+    const cityState = { pattern: /^(?<city>[^,]+),\s*(?<state>[A-Z]{2})$/ };
+    const splitMap = [
+      { field: 'City', value: 'city', fields: ['Location'], split: cityState, part: 'city' },
+      { field: 'State', value: 'state', fields: ['Location'], split: cityState, part: 'state' }
+    ];
+    const splitOptions: MappingOption[] = [
+      { label: 'City', value: 'city' },
+      { label: 'State', value: 'state', validation: { pattern: /^[A-Z]{2}$/ } }
+    ];
+
+    const { errors } = processMappedRows(
+      [
+        { Location: 'Portland, OR', City: 'Portland', State: 'OR' },
+        { Location: 'Portland', City: undefined, State: undefined }
+      ],
+      splitMap,
+      splitOptions
+    );
+
+    expect(errors.map(error => error.message)).toEqual([
+      "Row 2, City: 'Portland' does not match the expected format",
+      "Row 2, State: 'Portland' does not match the expected format"
+    ]);
+    expect(errors[1]).toMatchObject({ rowIndex: 1, column: 'State', cellValue: 'Portland' });
+  });
+
+  it('should translate values through the value map before coercing them', () => {
+    const { rows, errors } = processMappedRows(
+      [{ Subscribed: 'Oui' }, { Subscribed: 'yes' }, { Subscribed: 'Peut-être' }],
+      [{ field: 'Subscribed', value: 'subscribed', values: { Oui: true, Non: false } }],
+      [{ label: 'Subscribed', value: 'subscribed', type: 'boolean' }]
+    );
+
+    expect(rows.map(row => row['Subscribed'])).toEqual([true, true, 'Peut-être']);
+    expect(errors.map(error => error.message)).toEqual(["Row 3, Subscribed: 'Peut-être' is not a valid yes/no value"]);
+  });
+});
@@ -0,0 +1,154 @@
+import { coerceValue, isEmptyCell } from './fieldTypes';
+import { validateValue, runRowValidators } from './validation';
+import { applyTransforms, applyValueMap } from './transforms';
+import { combineValues, readMappedValue } from './combinedColumns';
+import type { ErrorSeverity, MappedField, MappingError, MappingOption, RowIssue, RowValidator, ValueMap } from './types';
+
+// An option paired with the column mapped to it
+interface ResolvedMapping {
+  option: MappingOption;
+  column: string;
+  values?: ValueMap;
+}
+
+/**
+ * Builds a MappingError that points at a single cell
+ */
+export const createCellError = (
+  option: MappingOption,
+  column: string,
+  rowIndex: number,
+  cellValue: unknown,
+  message: string,
+  severity: ErrorSeverity = 'error'
+): MappingError => ({
+  option,
+  message: `Row ${rowIndex + 1}, ${option.label}: ${message}`,
+  type: 'validation',
+  severity,
+  rowIndex,
+  column,
+  value: option.value,
+  cellValue
+});
+
+/**
+ * Builds a MappingError for a row validator issue, pointing at the field's column when it names one
+ */
+const createRowError = (
+  issue: RowIssue,
+  rowIndex: number,
+  row: Record<string, unknown>,
+  map: MappedField[],
+  options: MappingOption[]
+): MappingError => {
+  const option = options.find(item => item.value === issue.field);
+  const column = map.find(item => item.value === issue.field)?.field;
+
+  if (option && column !== undefined) {
+    return createCellError(option, column, rowIndex, row[column], issue.message, issue.severity);
+  }
+
+  // Whole-row issue, or a field that isn't mapped to a column
+  return {
+    option: option ?? { label: `Row ${rowIndex + 1}`, value: issue.field ?? '' },
+    message: option ? `Row ${rowIndex + 1}, ${option.label}: ${issue.message}` : `Row ${rowIndex + 1}: ${issue.message}`,
+    type: 'validation',
+    severity: issue.severity ?? 'error',
+    rowIndex,
+    ...(issue.field !== undefined && { value: issue.field })
+  };
+};
+
+/**
+ * Builds a record keyed by option value from a row keyed by column name
+ */
+export const toMappedRecord = (row: Record<string, unknown>, map: MappedField[]): Record<string, unknown> =>
+  map.reduce<Record<string, unknown>>((record, { field, value }) => {
+    record[value] = row[field];
+    return record;
+  }, {});
+
+/**
+ * Pairs each option with its mapped column, skipping options that need no per-cell work
+ */
+const resolveMappings = (map: MappedField[], options: MappingOption[]): ResolvedMapping[] =>
+  options
+    .map(option => ({ option, mapping: map.find(item => item.value === option.value) }))
+    .filter((entry): entry is { option: MappingOption; mapping: MappedField } => entry.mapping !== undefined)
+    .filter(({ option, mapping }) => option.type || option.validation || option.transform || mapping.values)
+    .map(({ option, mapping }) => ({ option, column: mapping.field, values: mapping.values }));
+
+/**
+ * Translates (through value maps), transforms, coerces and validates every mapped cell of every row, then runs row validators on the mapped records.
+ * Cells that fail to split or coerce are reported once and not validated further, so values missing from a value map
+ * surface as one error per cell; empty cells skip validation rules.
+ * Rows should already carry combined and split values (see combineColumns).
+ * @param {Record<string, unknown>[]} rows - Data rows keyed by column name.
+ * @param {MappedField[]} map - Mappings for the file being finished.
+ * @param {MappingOption[]} options - Target options declaring `transform`, `type` and/or `validation`.
+ * @param {RowValidator[]} [rowValidators] - Cross-field rules run against each record keyed by option value.
+ * @param {ReadonlySet<number>} [skippedRows] - Indexes of rows that will be dropped (e.g. duplicates); they are returned as read.
+ * @returns Rows with transformed and coerced values plus one MappingError per failing cell or row issue.
+ */
+export const processMappedRows = (
+  rows: Record<string, unknown>[],
+  map: MappedField[],
+  options: MappingOption[],
+  rowValidators: RowValidator[] = [],
+  skippedRows: ReadonlySet<number> = new Set()
+): { rows: Record<string, unknown>[]; errors: MappingError[] } => {
+  const mappings = resolveMappings(map, options);
+  const splits = map
+    .filter(mapping => mapping.split && mapping.fields)
+    .map(mapping => ({
+      mapping,
+      option: options.find(option => option.value === mapping.value) ?? { label: mapping.value, value: mapping.value }
+    }));
+  if (mappings.length === 0 && splits.length === 0 && rowValidators.length === 0) {
+    return { rows, errors: [] };
+  }
+
+  const errors: MappingError[] = [];
+  const processedRows = rows.map((row, rowIndex) => {
+    if (skippedRows.has(rowIndex)) return row;
+    const processed = { ...row };
+
+    // Values a split rule couldn't break up are reported against the source value and not checked further
+    const failedColumns = new Set<string>();
+    splits.forEach(({ mapping, option }) => {
+      const derived = readMappedValue(row, mapping);
+      if (!derived.ok) {
+        failedColumns.add(mapping.field);
+        errors.push(createCellError(option, mapping.field, rowIndex, combineValues(row, mapping), derived.message));
+      }
+    });
+
+    mappings.forEach(({ option, column, values }) => {
+      if (failedColumns.has(column)) return;
+      const cellValue = row[column];
+      const coerced = coerceValue(applyTransforms(applyValueMap(cellValue, values), option.transform, row), option);
+      if (!coerced.ok) {
+        errors.push(createCellError(option, column, rowIndex, cellValue, coerced.message));
+        return;
+      }
+      processed[column] = coerced.value;
+
+      if (option.validation && !isEmptyCell(coerced.value)) {
+        const message = validateValue(coerced.value, option.validation, row);
+        if (message) {
+          errors.push(createCellError(option, column, rowIndex, cellValue, message, option.validation.severity));
+        }
+      }
+    });
+
+    if (rowValidators.length > 0) {
+      runRowValidators(toMappedRecord(processed, map), rowValidators, { rowIndex, row })
+        .forEach(issue => errors.push(createRowError(issue, rowIndex, row, map, options)));
+    }
+
+    return processed;
+  });
+
+  return { rows: processedRows, errors };
+};
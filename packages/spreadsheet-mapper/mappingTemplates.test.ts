@@ -0,0 +1,122 @@
+import {
+  createHeaderFingerprint,
+  createMappingTemplate,
+  applyMappingTemplate,
+  createMemoryTemplateStore,
+  createLocalStorageTemplateStore
+} from './mappingTemplates';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+describe('mappingTemplates', () => {
+  const columns = ['Full Name', 'Email Address', 'Phone Number'];
+  const map = [
+    { field: 'Full Name', value: 'name', saved: true },
+    { field: 'Email Address', value: 'email', saved: true, fileName: 'a.csv' },
+    { field: 'Other Column', value: 'other', saved: true }
+  ];
+
+  describe('createHeaderFingerprint', () => {
+    it('should ignore case, whitespace and column order', () => {
+      expect(createHeaderFingerprint([' email address', 'PHONE NUMBER', 'Full Name']))
+        .toBe(createHeaderFingerprint(columns));
+    });
+
+    it('should differ for different headers', () => {
+      expect(createHeaderFingerprint(['Full Name', 'Email Address']))
+        .not.toBe(createHeaderFingerprint(columns));
+    });
+  });
+
+  describe('createMappingTemplate', () => {
+    it('should keep only mappings for the given columns', () => {
+      const template = createMappingTemplate('Contacts', columns, map);
+
+      expect(template).toMatchObject({
+        name: 'Contacts',
+        fingerprint: createHeaderFingerprint(columns),
+        columns,
+        map: [
+          { field: 'Full Name', value: 'name', saved: true },
+          { field: 'Email Address', value: 'email', saved: true }
+        ]
+      });
+    });
+  });
+
+  it('should keep combined mappings whose source columns are all present, and skip split mappings', () => {
+    const combined = [
+      { field: 'Name', value: 'name', saved: true, fields: ['First', 'Last'], separator: ' ' },
+      { field: 'Address', value: 'address', fields: ['Street', 'City'], template: '{Street}, {City}' },
+      { field: 'Surname', value: 'surname', fields: ['Last'], split: { delimiter: '-' }, part: 1 }
+    ];
+    const template = createMappingTemplate('People', ['First', 'Last', 'Street'], combined);
+
+    expect(template.map).toEqual([
+      { field: 'Name', value: 'name', saved: true, fields: ['First', 'Last'], separator: ' ' }
+    ]);
+    expect(applyMappingTemplate([], template, 'c.csv', ['First', 'Last'])).toEqual([
+      { field: 'Name', value: 'name', saved: true, fields: ['First', 'Last'], separator: ' ', fileName: 'c.csv' }
+    ]);
+  });
+
+  describe('applyMappingTemplate', () => {
+    it('should add template mappings for the file without overriding existing ones', () => {
+      const template = createMappingTemplate('Contacts', columns, map);
+      const existing = [{ field: 'Phone Number', value: 'email', fileName: 'b.csv' }];
+
+      expect(applyMappingTemplate(existing, template, 'b.csv', columns)).toEqual([
+        { field: 'Phone Number', value: 'email', fileName: 'b.csv' },
+        { field: 'Full Name', value: 'name', saved: true, fileName: 'b.csv' }
+      ]);
+    });
+
+    it('should return the same map when nothing applies', () => {
+      const template = createMappingTemplate('Contacts', columns, map);
+      const existing = [{ field: 'Full Name', value: 'name' }, { field: 'Email Address', value: 'email' }];
+
+      expect(applyMappingTemplate(existing, template, 'b.csv', columns)).toBe(existing);
+    });
+  });
+
+  describe('createMemoryTemplateStore', () => {
+    it('should save, load, list and remove templates by fingerprint', async () => {
+      const store = createMemoryTemplateStore();
+      const template = createMappingTemplate('Contacts', columns, map);
+
+      await store.save(template);
+
+      expect(await store.load(template.fingerprint)).toEqual(template);
+      expect(await store.list()).toEqual([template]);
+
+      await store.remove(template.fingerprint);
+
+      expect(await store.load(template.fingerprint)).toBeUndefined();
+    });
+  });
+
+  describe('createLocalStorageTemplateStore', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should persist templates across store instances', async () => {
+      const template = createMappingTemplate('Contacts', columns, map);
+
+      await createLocalStorageTemplateStore('templates-test').save(template);
+
+      const reloaded = createLocalStorageTemplateStore('templates-test');
+      expect(await reloaded.load(template.fingerprint)).toEqual(template);
+      expect(JSON.parse(localStorage.getItem('templates-test')!)).toHaveProperty(template.fingerprint);
+    });
+
+    it('should treat unreadable storage as empty', async () => {
+      localStorage.setItem('templates-test', '{not json');
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(await createLocalStorageTemplateStore('templates-test').list()).toEqual([]);
+      expect(warnSpy).toHaveBeenCalled();
+
+      warnSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { getSourceColumns } from './combinedColumns';
+import type { MappedField, MappingTemplate, TemplateStore } from './types';
+
+// Default localStorage key holding every saved template
+const DEFAULT_STORAGE_KEY = 'spreadsheet-mapper:templates';
+
+/**
+ * Builds a stable fingerprint for a set of column headers.
+ * Case, surrounding whitespace and column order are ignored so re-exported files still match.
+ */
+export const createHeaderFingerprint = (columns: string[]): string => {
+  const normalized = columns
+    .map(column => column.trim().toLowerCase())
+    .filter(Boolean)
+    .sort()
+    .join('\u001f');
+
+  // djb2 hash keeps the key short regardless of header count
+  let hash = 5381;
+  for (let i = 0; i < normalized.length; i++) {
+    hash = ((hash << 5) + hash + normalized.charCodeAt(i)) | 0;
+  }
+  return `${columns.length}-${(hash >>> 0).toString(16)}`;
+};
+
+/**
+ * Creates a template from the mappings that belong to a file with the given columns.
+ * Split mappings are skipped, as their patterns and functions can't be stored.
+ */
+export const createMappingTemplate = (
+  name: string,
+  columns: string[],
+  map: MappedField[]
+): MappingTemplate => ({
+  name,
+  fingerprint: createHeaderFingerprint(columns),
+  columns,
+  map: map
+    .filter(item => !item.split && getSourceColumns(item).every(column => columns.includes(column)))
+    .map(({ field, value, saved, fields, separator, template, values }) => ({
+      field,
+      value,
+      saved,
+      ...(fields && { fields }),
+      ...(separator !== undefined && { separator }),
+      ...(template !== undefined && { template }),
+      ...(values && { values })
+    })),
+  updatedAt: Date.now()
+});
+
+/**
+ * Re-applies a template to a file, leaving options the file already has mappings for untouched
+ * @returns {MappedField[]} The new map, or the original map if nothing was applied.
+ */
+export const applyMappingTemplate = (
+  map: MappedField[],
+  template: MappingTemplate,
+  fileName: string,
+  columns: string[]
+): MappedField[] => {
+  const fileMappings = map.filter(item => !item.fileName || item.fileName === fileName);
+  const additions = template.map
+    .filter(item => getSourceColumns(item).every(column => columns.includes(column)))
+    .filter(item => !fileMappings.some(existing => existing.value === item.value))
+    .map(item => ({ ...item, fileName }));
+
+  return additions.length > 0 ? [...map, ...additions] : map;
+};
+
+/**
+ * In-memory template store, useful for tests and single-session use
+ */
+export const createMemoryTemplateStore = (initial: MappingTemplate[] = []): TemplateStore => {
+  const templates = new Map<string, MappingTemplate>(initial.map(template => [template.fingerprint, template]));
+
+  return {
+    load: async (fingerprint) => templates.get(fingerprint),
+    save: async (template) => {
+      templates.set(template.fingerprint, template);
+    },
+    list: async () => Array.from(templates.values()),
+    remove: async (fingerprint) => {
+      templates.delete(fingerprint);
+    }
+  };
+};
+
+/**
+ * Template store persisted in localStorage. Behaves as an empty store where localStorage is unavailable (e.g. SSR).
+ * @param {string} [storageKey] - localStorage key for the template collection.
+ */
+export const createLocalStorageTemplateStore = (storageKey: string = DEFAULT_STORAGE_KEY): TemplateStore => {
+  const readAll = (): Record<string, MappingTemplate> => {
+    if (typeof localStorage === 'undefined') return {};
+    try {
+      const raw = localStorage.getItem(storageKey);
+      return raw ? JSON.parse(raw) as Record<string, MappingTemplate> : {};
+    } catch (error) {
+      console.warn('Failed to read mapping templates:', error);
+      return {};
+    }
+  };
+
+  const writeAll = (templates: Record<string, MappingTemplate>): void => {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(storageKey, JSON.stringify(templates));
+  };
+
+  return {
+    load: async (fingerprint) => readAll()[fingerprint],
+    save: async (template) => {
+      writeAll({ ...readAll(), [template.fingerprint]: template });
+    },
+    list: async () => Object.values(readAll()),
+    remove: async (fingerprint) => {
+      const templates = readAll();
+      delete templates[fingerprint];
+      writeAll(templates);
+    }
+  };
+};
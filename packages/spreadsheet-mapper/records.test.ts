@@ -0,0 +1,102 @@
+import { buildRecord, buildRecords, findPathConflicts, parsePath } from './records';
+import { describe, it, expect } from 'vitest';
+import type { MappingOption, RecordPath } from './types';
+
+describe('buildRecords', () => {
+  const options: MappingOption[] = [
+    { label: 'Email', value: 'email', required: true },
+    { label: 'Name', value: 'name' },
+    { label: 'Country', value: 'country', defaultValue: 'NZ' },
+    { label: 'Phone', value: 'phone' }
+  ];
+  const map = [
+    { field: 'E-mail Address', value: 'email' },
+    { field: 'Full Name', value: 'name' }
+  ];
+
+  it('should key records by option value, defaulting or omitting unmapped options', () => {
+    const rows = [
+      { 'E-mail Address': 'ada@example.com', 'Full Name': 'Ada', Extra: 'ignored' },
+      { 'E-mail Address': 'bob@example.com', 'Full Name': '' }
+    ];
+
+    expect(buildRecords(rows, map, options)).toEqual([
+      { email: 'ada@example.com', name: 'Ada', country: 'NZ' },
+      { email: 'bob@example.com', name: '', country: 'NZ' }
+    ]);
+  });
+
+  it('should prefer a mapped column over the default', () => {
+    expect(buildRecord({ Land: 'AU' }, [{ field: 'Land', value: 'country' }], options)).toEqual({ country: 'AU' });
+  });
+});
+
+describe('parsePath', () => {
+  it('should split keys and array indexes', () => {
+    expect(parsePath('name')).toEqual(['name']);
+    expect(parsePath('address.city')).toEqual(['address', 'city']);
+    expect(parsePath('contacts[0].phone')).toEqual(['contacts', 0, 'phone']);
+    expect(parsePath('grid[1][2]')).toEqual(['grid', 1, 2]);
+  });
+});
+
+describe('nested paths', () => {
+  interface Customer {
+    name: string;
+    address: { city: string; postcode?: string };
+    contacts: { phone: string; kind: string }[];
+  }
+
+  const options: MappingOption<Customer>[] = [
+    { label: 'Name', value: 'name' },
+    { label: 'City', value: 'address.city' },
+    { label: 'Postcode', value: 'address.postcode' },
+    { label: 'Phone', value: 'contacts[0].phone' },
+    { label: 'Phone type', value: 'contacts[0].kind', defaultValue: 'mobile' },
+    { label: 'Work phone', value: 'contacts[1].phone' }
+  ];
+
+  it('should build nested objects and arrays from paths', () => {
+    const map = [
+      { field: 'Name', value: 'name' },
+      { field: 'Town', value: 'address.city' },
+      { field: 'Mobile', value: 'contacts[0].phone' },
+      { field: 'Office', value: 'contacts[1].phone' }
+    ];
+
+    expect(buildRecord<Customer>({ Name: 'Ada', Town: 'Wellington', Mobile: '021', Office: '04' }, map, options)).toEqual({
+      name: 'Ada',
+      address: { city: 'Wellington' },
+      contacts: [{ phone: '021', kind: 'mobile' }, { phone: '04' }]
+    });
+  });
+
+  it('should type option values as key paths of the record', () => {
+    const paths: RecordPath<Customer>[] = ['address', 'address.postcode', 'contacts[2].kind'];
+    expect(paths).toHaveLength(3);
+
+    // @ts-expect-error 'address.town' is not a path of Customer
+    const typo: MappingOption<Customer> = { label: 'Town', value: 'address.town' };
+    expect(typo.value).toBe('address.town');
+  });
+
+  it('should report options whose paths overlap', () => {
+    const errors = findPathConflicts([
+      { label: 'Address', value: 'address' },
+      { label: 'City', value: 'address.city' },
+      { label: 'Phone', value: 'contacts[0].phone' },
+      { label: 'Work phone', value: 'contacts[1].phone' },
+      { label: 'Mobile', value: 'contacts[0].phone' }
+    ]);
+
+    expect(errors.map(error => error.message)).toEqual([
+      'City (address.city) overlaps with Address (address)',
+      'Mobile (contacts[0].phone) overlaps with Phone (contacts[0].phone)'
+    ]);
+    expect(errors[0]).toMatchObject({ type: 'validation', severity: 'error', value: 'address.city' });
+  });
+
+  it('should not report sibling paths', () => {
+    expect(findPathConflicts(options)).toEqual([]);
+  });
+});
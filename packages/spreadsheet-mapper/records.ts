@@ -0,0 +1,105 @@
+import type { MappedData, MappedField, MappingError, MappingOption } from './types';
+
+// One step of a target path: an object key or an array index
+type PathSegment = string | number;
+
+/**
+ * Splits a target path into keys and array indexes ("contacts[0].phone" → ["contacts", 0, "phone"])
+ */
+export const parsePath = (path: string): PathSegment[] => {
+  const segments: PathSegment[] = [];
+  path.split('.').forEach((part) => {
+    const bracket = part.indexOf('[');
+    const key = bracket === -1 ? part : part.substring(0, bracket);
+    if (key) segments.push(key);
+    if (bracket === -1) return;
+
+    const indexPattern = /\[(\d+)\]/g;
+    let match = indexPattern.exec(part);
+    while (match) {
+      segments.push(Number(match[1]));
+      match = indexPattern.exec(part);
+    }
+  });
+  return segments;
+};
+
+/**
+ * Writes a value at a path, creating objects for keys and arrays for indexes along the way
+ */
+const setPath = (target: MappedData, segments: PathSegment[], value: unknown): void => {
+  let current: Record<PathSegment, unknown> = target;
+  segments.forEach((segment, index) => {
+    if (index === segments.length - 1) {
+      current[segment] = value;
+      return;
+    }
+    const existing = current[segment];
+    if (typeof existing !== 'object' || existing === null) {
+      current[segment] = typeof segments[index + 1] === 'number' ? [] : {};
+    }
+    current = current[segment] as Record<PathSegment, unknown>;
+  });
+};
+
+/**
+ * Finds options whose target paths overlap (the same path, or one nested inside another), which would overwrite each other.
+ * @returns {MappingError[]} One error for each option that overlaps an earlier one.
+ */
+export const findPathConflicts = (options: MappingOption[]): MappingError[] => {
+  const paths = options.map(option => ({ option, segments: parsePath(option.value) }));
+  const errors: MappingError[] = [];
+
+  paths.forEach(({ option, segments }, index) => {
+    const conflict = paths.slice(0, index).find(earlier => {
+      const length = Math.min(earlier.segments.length, segments.length);
+      return earlier.segments.slice(0, length).every((segment, i) => segment === segments[i]);
+    });
+    if (conflict) {
+      errors.push({
+        option,
+        message: `${option.label} (${option.value}) overlaps with ${conflict.option.label} (${conflict.option.value})`,
+        type: 'validation',
+        severity: 'error',
+        value: option.value
+      });
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Builds one target-shaped record from a row keyed by column name.
+ * Mapped options take their column's value; unmapped options get their `defaultValue`, or are omitted without one.
+ * Option values are paths, so `address.city` and `contacts[0].phone` produce nested objects and arrays.
+ * Values are only as typed as the options make them (via `type` and `transform`); TRecord is not checked at runtime.
+ */
+export const buildRecord = <TRecord extends object = MappedData>(
+  row: Record<string, unknown>,
+  map: MappedField[],
+  options: MappingOption<TRecord>[]
+): TRecord => {
+  const record: MappedData = {};
+  options.forEach((option) => {
+    const mapping = map.find(item => item.value === option.value);
+    if (mapping) {
+      setPath(record, parsePath(option.value), row[mapping.field]);
+    } else if (option.defaultValue !== undefined) {
+      setPath(record, parsePath(option.value), option.defaultValue);
+    }
+  });
+  return record as TRecord;
+};
+
+/**
+ * Builds target-shaped records, keyed by `MappingOption.value` paths, for every row
+ * @param {Record<string, unknown>[]} rows - Finished rows keyed by column name.
+ * @param {MappedField[]} map - Mappings for the file the rows came from.
+ * @param {MappingOption[]} options - Target options; their order sets the key order of each record.
+ */
+export const buildRecords = <TRecord extends object = MappedData>(
+  rows: Record<string, unknown>[],
+  map: MappedField[],
+  options: MappingOption<TRecord>[]
+): TRecord[] => rows.map(row => buildRecord(row, map, options));
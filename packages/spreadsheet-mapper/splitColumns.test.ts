@@ -0,0 +1,48 @@
+import { getSplitPart, splitValue } from './splitColumns';
+import { describe, it, expect } from 'vitest';
+
+describe('splitColumns', () => {
+  describe('splitValue', () => {
+    it('should split on a delimiter, keeping the rest in the last part when limited', () => {
+      expect(splitValue('Ada Lovelace', { delimiter: ' ' }, {})).toEqual({ ok: true, parts: { 0: 'Ada', 1: 'Lovelace' } });
+      expect(splitValue('Mary Ann Smith', { delimiter: ' ', limit: 2 }, {}))
+        .toEqual({ ok: true, parts: { 0: 'Mary', 1: 'Ann Smith' } });
+    });
+
+    it('should return numbered and named groups for a pattern', () => {
+      const result = splitValue('Portland, OR 97201', { pattern: /^(?<city>[^,]+),\s*(?<state>[A-Z]{2})\s+(?<zip>\d{5})$/ }, {});
+
+      expect(result).toMatchObject({ ok: true, parts: { 1: 'Portland', city: 'Portland', state: 'OR', zip: '97201' } });
+    });
+
+    it('should fail when a pattern does not match', () => {
+      expect(splitValue('Portland', { pattern: /^(?<city>[^,]+), (?<state>[A-Z]{2})$/ }, {}))
+        .toEqual({ ok: false, message: "'Portland' does not match the expected format" });
+    });
+
+    it('should use the parts a custom function returns, and its error when it throws', () => {
+      const row = { Name: 'Lovelace, Ada' };
+      const byComma = (value: unknown) => {
+        const [last, first] = String(value).split(', ');
+        if (!first) throw new Error('Expected "Last, First"');
+        return { first, last };
+      };
+
+      expect(splitValue(row.Name, byComma, row)).toEqual({ ok: true, parts: { first: 'Ada', last: 'Lovelace' } });
+      expect(splitValue('Ada', byComma, row)).toEqual({ ok: false, message: 'Expected "Last, First"' });
+      expect(splitValue('Ada', () => null, row)).toEqual({ ok: false, message: "'Ada' could not be split" });
+    });
+
+    it('should split empty cells into no parts', () => {
+      expect(splitValue('  ', { pattern: /^(\d+)$/ }, {})).toEqual({ ok: true, parts: {} });
+    });
+  });
+
+  describe('getSplitPart', () => {
+    it('should pick a part and treat a missing part as empty', () => {
+      expect(getSplitPart('Ada Lovelace', { delimiter: ' ' }, 1)).toEqual({ ok: true, value: 'Lovelace' });
+      expect(getSplitPart('Cher', { delimiter: ' ' }, 1)).toEqual({ ok: true, value: '' });
+      expect(getSplitPart('Cher', { delimiter: ' ' })).toEqual({ ok: true, value: 'Cher' });
+    });
+  });
+});
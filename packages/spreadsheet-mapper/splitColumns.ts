@@ -0,0 +1,69 @@
+import { isEmptyCell } from './fieldTypes';
+import type { CoercionResult } from './fieldTypes';
+import type { SplitRule } from './types';
+
+// Parts of a split value keyed by index or group name, or why the value could not be split
+export type SplitResult =
+  | { ok: true; parts: Record<string, unknown> }
+  | { ok: false; message: string };
+
+/**
+ * Splits on a delimiter; with a limit, the last part keeps the rest of the text ("Mary Ann Smith" → "Mary", "Ann Smith")
+ */
+const splitOnDelimiter = (text: string, delimiter: string, limit?: number): string[] => {
+  const pieces = text.split(delimiter).map(piece => piece.trim());
+  if (limit === undefined || limit < 1 || pieces.length <= limit) {
+    return pieces;
+  }
+  return pieces.slice(0, limit - 1).concat(pieces.slice(limit - 1).join(delimiter).trim());
+};
+
+/**
+ * Breaks a cell value into parts with a split rule. Empty cells split into no parts.
+ * @param {unknown} value - The source value (already combined, for mappings over several columns).
+ * @param {SplitRule} rule - The mapping's `split`.
+ * @param {Record<string, unknown>} row - The source row, passed to custom split functions.
+ */
+export const splitValue = (value: unknown, rule: SplitRule, row: Record<string, unknown>): SplitResult => {
+  if (isEmptyCell(value)) {
+    return { ok: true, parts: {} };
+  }
+
+  const text = String(value).trim();
+  if (typeof rule === 'function') {
+    try {
+      const parts = rule(value, row);
+      return parts ? { ok: true, parts: { ...parts } } : { ok: false, message: `'${text}' could not be split` };
+    } catch (error) {
+      return { ok: false, message: error instanceof Error ? error.message : `'${text}' could not be split` };
+    }
+  }
+
+  if ('pattern' in rule) {
+    rule.pattern.lastIndex = 0;
+    const match = rule.pattern.exec(text) as (RegExpExecArray & { groups?: Record<string, string | undefined> }) | null;
+    if (!match) {
+      return { ok: false, message: `'${text}' does not match the expected format` };
+    }
+    return { ok: true, parts: { ...match.slice(), ...match.groups } };
+  }
+
+  return { ok: true, parts: { ...splitOnDelimiter(text, rule.delimiter, rule.limit) } };
+};
+
+/**
+ * Picks one part of a split value; a part the value doesn't have is empty rather than an error
+ */
+export const getSplitPart = (
+  value: unknown,
+  rule: SplitRule,
+  part: string | number = 0,
+  row: Record<string, unknown> = {}
+): CoercionResult => {
+  const result = splitValue(value, rule, row);
+  if (!result.ok) {
+    return result;
+  }
+  const picked = result.parts[String(part)];
+  return { ok: true, value: picked === undefined ? '' : picked };
+};
@@ -0,0 +1,28 @@
+import { parseSheets } from './SpreadsheetService';
+import type { WorkerParseRequest, WorkerParseResponse } from './types';
+
+/**
+ * Parses a workbook on behalf of the main thread
+ */
+export const handleParseRequest = ({ data, options }: WorkerParseRequest): WorkerParseResponse => {
+  try {
+    return { results: parseSheets(data, options) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Worker parsing failed' };
+  }
+};
+
+// The parts of a dedicated worker's global scope used here, which the DOM typings leave out
+interface ParseWorkerScope {
+  WorkerGlobalScope?: new () => object;
+  onmessage: ((event: MessageEvent<WorkerParseRequest>) => void) | null;
+  postMessage: (message: WorkerParseResponse) => void;
+}
+
+// Only register the message handler when loaded as a worker script
+const scope = globalThis as unknown as ParseWorkerScope;
+if (scope.WorkerGlobalScope !== undefined && scope instanceof scope.WorkerGlobalScope) {
+  scope.onmessage = (event: MessageEvent<WorkerParseRequest>) => {
+    scope.postMessage(handleParseRequest(event.data));
+  };
+}
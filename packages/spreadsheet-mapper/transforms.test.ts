@@ -0,0 +1,47 @@
+import { applyTransforms, transformRows } from './transforms';
+import { describe, it, expect } from 'vitest';
+import type { MappingOption } from './types';
+
+describe('applyTransforms', () => {
+  it('should apply built-in steps in order', () => {
+    expect(applyTransforms('  jOHN   o\'neil-smith ', ['trim', 'collapseWhitespace', 'titleCase'], {})).toBe("John O'neil-Smith");
+    expect(applyTransforms(' abc-123 ', ['trim', 'uppercase'], {})).toBe('ABC-123');
+    expect(applyTransforms('MiXeD', 'lowercase', {})).toBe('mixed');
+  });
+
+  it('should strip non-digits from text and numbers', () => {
+    expect(applyTransforms('(555) 123-4567', 'digitsOnly', {})).toBe('5551234567');
+    expect(applyTransforms(5551234567, 'digitsOnly', {})).toBe('5551234567');
+  });
+
+  it('should leave non-text values untouched by text steps', () => {
+    expect(applyTransforms(42, ['trim', 'uppercase'], {})).toBe(42);
+    expect(applyTransforms(null, 'digitsOnly', {})).toBeNull();
+  });
+
+  it('should pass the source row to custom steps', () => {
+    const withCountryCode = (value: unknown, row: Record<string, unknown>) => `+${row['Country Code']} ${value}`;
+
+    expect(applyTransforms(' 5551234 ', ['trim', withCountryCode], { 'Country Code': 1 })).toBe('+1 5551234');
+  });
+});
+
+describe('transformRows', () => {
+  const options: MappingOption[] = [
+    { label: 'Name', value: 'name', transform: ['trim', 'titleCase'] },
+    { label: 'Notes', value: 'notes' }
+  ];
+
+  it('should transform only mapped columns with steps', () => {
+    const rows = [{ Customer: ' ada lovelace ', Notes: ' keep ' }];
+
+    expect(transformRows(rows, [{ field: 'Customer', value: 'name' }, { field: 'Notes', value: 'notes' }], options))
+      .toEqual([{ Customer: 'Ada Lovelace', Notes: ' keep ' }]);
+  });
+
+  it('should return the same rows when nothing needs transforming', () => {
+    const rows = [{ Notes: ' keep ' }];
+
+    expect(transformRows(rows, [{ field: 'Notes', value: 'notes' }], options)).toBe(rows);
+  });
+});
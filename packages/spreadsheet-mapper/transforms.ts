@@ -0,0 +1,95 @@
+import { isEmptyCell } from './fieldTypes';
+import type { MappedField, MappingOption, TransformStep, ValueMap } from './types';
+
+/**
+ * Capitalizes the first letter of each word and lowercases the rest ("jOHN o'neil" → "John O'neil")
+ */
+const toTitleCase = (text: string): string =>
+  text.toLowerCase().replace(/(^|[\s-])(\S)/g, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+
+/**
+ * Runs a single built-in or custom step; built-in steps leave non-text values untouched
+ */
+const applyStep = (value: unknown, step: TransformStep, row: Record<string, unknown>): unknown => {
+  if (typeof step === 'function') {
+    return step(value, row);
+  }
+
+  if (step === 'digitsOnly') {
+    return typeof value === 'string' || typeof value === 'number' ? String(value).replace(/\D/g, '') : value;
+  }
+
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  switch (step) {
+    case 'trim':
+      return value.trim();
+    case 'collapseWhitespace':
+      return value.replace(/\s+/g, ' ');
+    case 'uppercase':
+      return value.toUpperCase();
+    case 'lowercase':
+      return value.toLowerCase();
+    case 'titleCase':
+      return toTitleCase(value);
+    default:
+      return value;
+  }
+};
+
+/**
+ * Applies an option's transform steps to a cell value, in order
+ * @param {unknown} value - The cell value as read from the sheet.
+ * @param {TransformStep | TransformStep[] | undefined} steps - The option's `transform`.
+ * @param {Record<string, unknown>} row - The source row, passed to custom steps.
+ */
+export const applyTransforms = (
+  value: unknown,
+  steps: TransformStep | TransformStep[] | undefined,
+  row: Record<string, unknown>
+): unknown => {
+  if (steps === undefined) return value;
+  return (Array.isArray(steps) ? steps : [steps]).reduce<unknown>((current, step) => applyStep(current, step, row), value);
+};
+
+/**
+ * Key a source value is looked up by in a value map
+ */
+export const toValueKey = (value: unknown): string => String(value).trim();
+
+/**
+ * Translates a cell through a mapping's value map, leaving empty cells and values without an entry untouched
+ */
+export const applyValueMap = (value: unknown, values: ValueMap | undefined): unknown => {
+  if (!values || isEmptyCell(value)) return value;
+  const key = toValueKey(value);
+  return Object.prototype.hasOwnProperty.call(values, key) ? values[key] : value;
+};
+
+/**
+ * Applies value maps and transform steps to the mapped columns of each row, e.g. to preview cleaned-up values
+ * @returns {Record<string, unknown>[]} Transformed copies of the rows, or the same array when no mapping has either.
+ */
+export const transformRows = (
+  rows: Record<string, unknown>[],
+  map: MappedField[],
+  options: MappingOption[]
+): Record<string, unknown>[] => {
+  const columns = options
+    .map(option => ({ steps: option.transform, mapping: map.find(item => item.value === option.value) }))
+    .filter((entry): entry is { steps: MappingOption['transform']; mapping: MappedField } =>
+      entry.mapping !== undefined && (entry.steps !== undefined || entry.mapping.values !== undefined));
+  if (columns.length === 0) {
+    return rows;
+  }
+
+  return rows.map((row) => {
+    const transformed = { ...row };
+    columns.forEach(({ steps, mapping }) => {
+      transformed[mapping.field] = applyTransforms(applyValueMap(row[mapping.field], mapping.values), steps, row);
+    });
+    return transformed;
+  });
+};
@@ -36,6 +36,23 @@ export interface PerformanceConfig {
   enableMetrics?: boolean;
   /** Maximum number of concurrent file processing (default: 3) */
   maxConcurrentFiles?: number;
+  /** Rows per batch yielded by iterateRows (default: 1000) */
+  batchSize?: number;
+  /**
+   * Factory for a Web Worker running the `react-spreadsheet-mapper/worker` entry.
+   * When set, workbook parsing runs off the main thread; falls back to in-thread
+   * parsing when workers are unavailable (e.g. SSR, jsdom).
+   */
+  createWorker?: () => Worker;
+  /** Progress callback for byte-level reading and row-level shaping */
+  onProgress?: (progress: ProcessingProgress) => void;
+}
+
+// Progress of a single file: bytes while reading, rows while shaping the full dataset
+export interface ProcessingProgress {
+  phase: 'reading' | 'rows';
+  loaded: number;
+  total: number;
 }
 
 // Accessibility configuration interface
@@ -56,11 +73,14 @@ export interface AccessibilityConfig {
 }
 
 export interface SpreadsheetConfig {
-  headerRow?: number;
+  /** Row holding the column names (1-based), first and last rows of a header over several rows, or 'auto' to pick it from the top rows of the sheet */
+  headerRow?: number | HeaderRowRange | 'auto';
   omitHeader?: boolean;
   dataStartRow?: number;
   sheet?: string | number;
   previewRowCount?: number;
+  /** Rows from the top of the sheet kept in `SpreadsheetData.rawRows` for choosing a header row (default: 10) */
+  rawRowCount?: number;
   /** Security configuration options */
   security?: SecurityConfig;
   /** Performance configuration options */
@@ -71,37 +91,309 @@ export interface SpreadsheetConfig {
 
 export interface SpreadsheetData {
   name: string;
+  /** Sheet the data was read from, when it was chosen with `chooseSheets` */
+  sheet?: string;
   columns: string[];
+  /** Preview rows, limited by `previewRowCount` */
   data: Record<string, unknown>[];
+  /** Total number of data rows in the sheet */
+  totalRows?: number;
+  /**
+   * Returns every data row, shaped and sanitized the same way as the preview.
+   * Pass `reportProgress: false` to skip `onProgress`, e.g. when reading while rendering.
+   */
+  getAllRows?: (options?: { reportProgress?: boolean }) => Record<string, unknown>[];
+  /**
+   * Resolves to the same rows as `getAllRows`, shaped a batch at a time with a pause between batches,
+   * so their `'rows'` progress can be rendered while a large sheet is shaped
+   */
+  loadAllRows?: () => Promise<Record<string, unknown>[]>;
+  /** Non-blocking issues found while reading the file (e.g. a large file) */
+  warnings?: MappingError[];
   /** Performance metrics for this file processing */
   metrics?: PerformanceMetrics;
+  /** Row, or first and last rows, the columns were read from (1-based); absent with `omitHeader` */
+  headerRow?: number | HeaderRowRange;
+  /** How header-like the row picked by `headerRow: 'auto'` looked (0-1); absent when the row was given */
+  headerConfidence?: number;
+  /** First rows of the sheet as read, limited by `rawRowCount`; `rawRows[i]` is what `headerRow: i + 1` refers to */
+  rawRows?: SpreadsheetMatrix;
+  /** Re-reads the cached sheet with another header row (and optionally first data row), without reading the file again */
+  withHeaderRow?: (headerRow: number | HeaderRowRange, dataStartRow?: number) => SpreadsheetData;
 }
 
 export interface MappedField {
+  /** Source column; for a combined mapping, the name given to the combined column (e.g. "First + Last") */
   field: string;
   value: string;
   saved?: boolean;
   /** File name for per-file mapping support */
   fileName?: string;
+  /** Confidence (0-1) of an automatically suggested mapping */
+  confidence?: number;
+  /** Source columns combined into one value; makes this a combined mapping */
+  fields?: string[];
+  /** Text placed between the non-empty `fields` values (default: ' ') */
+  separator?: string;
+  /** Layout for the combined value with `{Column}` placeholders, e.g. "{Street}, {City} {Zip}"; overrides `separator` */
+  template?: string;
+  /** Splits the `fields` value into parts; makes this a split mapping that takes one `part` */
+  split?: SplitRule;
+  /** Part of the split value this mapping takes: an index, a regex group number or name, or a key of a custom split's result (default: 0) */
+  part?: string | number;
+  /** Source values translated to allowed target values before transforms, e.g. { "Y": true, "New Zealand": "NZ" } */
+  values?: ValueMap;
 }
 
-export interface MappingOption {
-  label: string;
+// Allowed target values keyed by trimmed source text
+export type ValueMap = Record<string, string | number | boolean>;
+
+// A distinct value found in a mapped column
+export interface DistinctValue {
+  /** Trimmed source text */
   value: string;
+  /** Number of rows holding it */
+  count: number;
+  /** Allowed value it becomes, through the value map or by matching directly; undefined while unmapped */
+  target?: string | number | boolean;
+}
+
+/**
+ * How a split mapping breaks up its source value.
+ * A delimiter yields parts by index (with `limit`, the last part keeps the rest of the text);
+ * a pattern yields its numbered and named capture groups; a function returns the parts itself.
+ */
+export type SplitRule =
+  | { delimiter: string; limit?: number }
+  | { pattern: RegExp }
+  | ((value: unknown, row: Record<string, unknown>) => unknown[] | Record<string, unknown> | null | undefined);
+
+// The parts of a mapping that describe where its value comes from
+export type MappedColumns = Pick<MappedField, 'field' | 'value' | 'fields' | 'separator' | 'template' | 'split' | 'part' | 'values'>;
+
+// Target field types that mapped values are coerced to
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'email' | 'enum';
+
+/**
+ * A target field to map a column to, generic over the key it fills.
+ * Prefer `MappingOption<TRecord>`; this form exists so options for any record stay assignable to `MappingOption`.
+ */
+export interface KeyedMappingOption<TKey extends string = string> {
+  label: string;
+  /** Key of the target record this option fills; dotted and indexed paths ("address.city", "contacts[0].phone") fill nested records */
+  value: TKey;
   required?: boolean;
+  /** Alternative column names that should match this option (e.g. "E-mail", "email address") */
+  aliases?: string[];
+  /** Target type; mapped values are coerced to it when finishing (default: values pass through untouched) */
+  type?: FieldType;
+  /** Allowed values when `type` is 'enum' */
+  enum?: (string | number | boolean)[];
+  /** Value used for empty cells */
+  defaultValue?: unknown;
+  /** Per-cell validation rules, checked after type coercion */
+  validation?: FieldValidation;
+  /** Values must not repeat across the rows of every processed file */
+  unique?: boolean;
+  /** Cleanup steps applied to each cell, in order, before coercion and validation */
+  transform?: TransformStep | TransformStep[];
+}
+
+// Values a target path stops at rather than descending into
+type PathLeaf = string | number | boolean | bigint | symbol | null | undefined | Date | ((...args: never[]) => unknown);
+
+// Remaining nesting depth for RecordPath, counted down so recursive records stay finite
+type PathDepth = [never, 0, 1, 2, 3, 4];
+
+// Paths below one key: nested keys after a dot, array items by index
+type SubPath<TKey extends string, TValue, TDepth extends number> =
+  TValue extends PathLeaf
+    ? never
+    : TValue extends readonly (infer TItem)[]
+      ? `${TKey}[${number}]` | (TItem extends PathLeaf ? never : `${TKey}[${number}].${RecordPath<TItem, TDepth>}`)
+      : `${TKey}.${RecordPath<TValue, TDepth>}`;
+
+/**
+ * Every key path into a record type, e.g. "name", "address.city" or "contacts[0].phone" (up to 5 levels deep)
+ */
+export type RecordPath<TRecord, TDepth extends number = 5> = [TDepth] extends [never]
+  ? never
+  : {
+      [TKey in Extract<keyof TRecord, string>]-?: TKey | SubPath<TKey, NonNullable<TRecord[TKey]>, PathDepth[TDepth]>;
+    }[Extract<keyof TRecord, string>];
+
+/**
+ * A target field to map a column to. Pass the record type as `TRecord` to check `value` against its key paths.
+ */
+export type MappingOption<TRecord extends object = MappedData> = KeyedMappingOption<RecordPath<TRecord>>;
+
+/**
+ * A cleanup step for cell values. Built-in steps only change text (and, for 'digitsOnly', numbers);
+ * custom functions receive the current value and the source row.
+ */
+export type TransformStep =
+  | 'trim'
+  | 'collapseWhitespace'
+  | 'uppercase'
+  | 'lowercase'
+  | 'titleCase'
+  | 'digitsOnly'
+  | ((value: unknown, row: Record<string, unknown>) => unknown);
+
+// Per-cell validation rules; empty cells are skipped
+export interface FieldValidation {
+  /** Regular expression the cell text must match */
+  pattern?: RegExp;
+  /** Minimum for numeric and date values */
+  min?: number | Date;
+  /** Maximum for numeric and date values */
+  max?: number | Date;
+  minLength?: number;
+  maxLength?: number;
+  /** Custom check returning an error message, or nothing when the value is valid */
+  validate?: (value: unknown, row: Record<string, unknown>) => string | undefined | null | void;
+  /**
+   * Asynchronous check for a batch of distinct values from one column (e.g. "do these customer IDs exist?").
+   * Resolves to one message per value, in the same order; nothing means the value is valid.
+   */
+  validateAsync?: (values: unknown[]) => Promise<(string | undefined | null | void)[]>;
+  /** Replaces the generated message for the built-in rules */
+  message?: string;
+  /** Severity of failures from these rules; 'warning' and 'info' do not block finishing (default: 'error') */
+  severity?: ErrorSeverity;
+}
+
+// Batching and concurrency for `validateAsync` calls
+export interface AsyncValidationConfig {
+  /** Maximum distinct values per call (default: 500) */
+  batchSize?: number;
+  /** Maximum calls in flight at once (default: 4) */
+  concurrency?: number;
+}
+
+// Resolved `validateAsync` messages, by option value and then by cell value
+export type AsyncValidationCache = Map<string, Map<string, string | undefined>>;
+
+// Automatic column matching configuration
+export interface AutoMatchConfig {
+  /** Minimum confidence (0-1) for a suggestion to be proposed (default: 0.6) */
+  threshold?: number;
+}
+
+// Issue reported by a row validator
+export interface RowIssue {
+  message: string;
+  /** Option value the issue points at, when it concerns one field */
+  field?: string;
+  /** 'warning' and 'info' issues do not block finishing (default: 'error') */
+  severity?: ErrorSeverity;
+}
+
+export interface RowValidationContext {
+  /** Zero-based index of the data row */
+  rowIndex: number;
+  /** Source row keyed by column name */
+  row: Record<string, unknown>;
 }
 
+/**
+ * Validates a whole mapped record (keyed by option value) for cross-field rules,
+ * e.g. "endDate must be after startDate". Return nothing when the record is valid.
+ */
+export type RowValidator = (
+  record: Record<string, unknown>,
+  context: RowValidationContext
+) => string | RowIssue | (string | RowIssue)[] | undefined | null | void;
+
+// How strongly an issue should be treated; only 'error' blocks finishing
+export type ErrorSeverity = 'error' | 'warning' | 'info';
+
 export interface MappingError {
   option: MappingOption;
   message: string;
   /** Error type for better categorization */
   type?: 'validation' | 'security' | 'performance' | 'accessibility';
+  /** Errors without a severity are treated as 'error' */
+  severity?: ErrorSeverity;
+  /** Zero-based index of the data row, for cell and row errors */
+  rowIndex?: number;
+  /** Source column the offending value came from */
+  column?: string;
+  /** Target option value the error relates to */
+  value?: string;
+  /** The offending cell value as read from the sheet */
+  cellValue?: unknown;
+  /** Other rows holding the same value, for duplicate errors */
+  conflicts?: DuplicateLocation[];
+}
+
+/**
+ * How rows sharing a `unique` value are handled when finishing:
+ * 'error' blocks onFinish, 'warn' reports them but finishes with every row,
+ * 'keepFirst' / 'keepLast' silently keep one occurrence and drop the rest.
+ */
+export type DuplicatePolicy = 'error' | 'warn' | 'keepFirst' | 'keepLast';
+
+// A row in one of the processed files
+export interface DuplicateLocation {
+  fileName: string;
+  /** Zero-based index of the data row */
+  rowIndex: number;
+}
+
+// Rows of one processed file together with the mappings that apply to it
+export interface DuplicateSource {
+  fileName: string;
+  rows: Record<string, unknown>[];
+  map: MappedField[];
+}
+
+// Saved mapping, re-applied to files whose headers share its fingerprint
+export interface MappingTemplate {
+  name: string;
+  /** Header fingerprint from createHeaderFingerprint */
+  fingerprint: string;
+  columns: string[];
+  /** Split mappings are left out, as their rules can't be stored */
+  map: (Omit<MappedColumns, 'split' | 'part'> & Pick<MappedField, 'saved'>)[];
+  /** Epoch milliseconds of the last save */
+  updatedAt: number;
+}
+
+// Persistence adapter for mapping templates; implement it to back templates with your own API
+export interface TemplateStore {
+  load: (fingerprint: string) => Promise<MappingTemplate | undefined>;
+  save: (template: MappingTemplate) => Promise<void>;
+  list: () => Promise<MappingTemplate[]>;
+  remove: (fingerprint: string) => Promise<void>;
 }
 
 export interface MappedData {
   [key: string]: unknown;
 }
 
+// What onFinish receives for a finished file; `records` is required when `TOutput` is 'records'
+export type MappedResult<TRecord extends object = MappedData, TOutput extends OutputMode = OutputMode> = SpreadsheetData & {
+  /** Column-to-option mappings used for the file */
+  map: MappedColumns[];
+  /** Outstanding non-blocking issues */
+  warnings: MappingError[];
+} & ([TOutput] extends ['records']
+  ? {
+    /** Rows as target-shaped objects keyed by option value */
+    records: TRecord[];
+  }
+  : {
+    /** Rows as target-shaped objects keyed by option value; present when `output` is 'records' */
+    records?: TRecord[];
+  });
+
+/**
+ * Shape of the finished data: 'rows' hands over rows keyed by column name plus `map`,
+ * 'records' also builds `records` keyed by option value.
+ */
+export type OutputMode = 'rows' | 'records';
+
 // File validation result interface
 export interface FileValidationResult {
   isValid: boolean;
@@ -118,6 +410,76 @@ export interface RateLimitState {
   windowStart: number;
 }
 
+// Plain, structured-cloneable parse options passed across the worker boundary
+export interface SpreadsheetParseOptions {
+  headerRow: number | HeaderRowRange | 'auto';
+  omitHeader: boolean;
+  dataStartRow?: number;
+  /** Sheets to parse by name or index, all from one read of the workbook */
+  sheets: (string | number)[];
+  previewRowCount: number;
+  sanitizeData: boolean;
+}
+
+// Result of parsing a workbook: data rows stay raw, only the preview is shaped
+export interface ParsedSpreadsheet {
+  columns: string[];
+  /** Index of the first data row in `matrix`; the rows are sliced from it so a worker sends the sheet only once */
+  dataStartIndex: number;
+  preview: Record<string, CellValue>[];
+  /** Every row of the sheet, header rows included, so the header row can be changed later */
+  matrix: SpreadsheetMatrix;
+  /** The row picked for `headerRow: 'auto'` */
+  detectedHeader?: HeaderDetection;
+  /** Merged regions of the sheet, in the matrix's row and column indexes */
+  merges?: CellRange[];
+}
+
+// First and last rows (1-based, inclusive) of a header spread over several rows, e.g. [1, 2] for "Billing" above "City"
+export type HeaderRowRange = [number, number];
+
+// A merged region of a sheet by zero-based start and end row and column, as in the sheet's `!merges`
+export interface CellRange {
+  s: { r: number; c: number };
+  e: { r: number; c: number };
+}
+
+// A header row found by detectHeaderRow (1-based) and how header-like it looked, from 0 to 1
+export interface HeaderDetection {
+  row: number;
+  confidence: number;
+}
+
+// One sheet of a workbook as seen by inspectWorkbook
+export interface SheetSummary {
+  name: string;
+  /** Position of the sheet in the workbook, usable as `SpreadsheetConfig.sheet` */
+  index: number;
+  /** Rows and columns in the sheet's used range, counted from A1 */
+  rowCount: number;
+  columnCount: number;
+  /** First rows as read, header rows included; `sampleRows[i]` is what `headerRow: i + 1` refers to */
+  sampleRows: SpreadsheetMatrix;
+}
+
+// Sheet names, dimensions and sample rows of a workbook, read before choosing what to import
+export interface WorkbookInfo {
+  fileName: string;
+  sheets: SheetSummary[];
+}
+
+// Messages exchanged with the parsing worker
+export interface WorkerParseRequest {
+  data: ArrayBuffer | string;
+  options: SpreadsheetParseOptions;
+}
+
+export interface WorkerParseResponse {
+  /** One result per requested sheet, in order */
+  results?: ParsedSpreadsheet[];
+  error?: string;
+}
+
 export type CellValue = string | number | boolean | null | undefined;
 export type SpreadsheetRow = CellValue[];
 export type SpreadsheetMatrix = SpreadsheetRow[]; 
\ No newline at end of file
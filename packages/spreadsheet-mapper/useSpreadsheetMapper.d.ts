@@ -1,10 +1,11 @@
 declare module 'react-spreadsheet-mapper' {
   export interface SpreadsheetConfig {
-    headerRow?: number;
+    headerRow?: number | HeaderRowRange | 'auto';
     omitHeader?: boolean;
     dataStartRow?: number;
     sheet?: string | number;
     previewRowCount?: number;
+    rawRowCount?: number;
     security?: {
       maxFileSize?: number;
       allowedExtensions?: string[];
@@ -19,6 +20,9 @@ declare module 'react-spreadsheet-mapper' {
       processingThrottle?: number;
       enableMetrics?: boolean;
       maxConcurrentFiles?: number;
+      batchSize?: number;
+      createWorker?: () => Worker;
+      onProgress?: (progress: ProcessingProgress) => void;
     };
     accessibility?: {
       announceChanges?: boolean;
@@ -38,18 +42,149 @@ declare module 'react-spreadsheet-mapper' {
     field: string;
     value: string;
     saved?: boolean;
+    fileName?: string;
+    confidence?: number;
+    fields?: string[];
+    separator?: string;
+    template?: string;
+    split?: SplitRule;
+    part?: string | number;
+    values?: ValueMap;
   }
 
-  export interface MappingOption {
-    label: string;
+  export type ValueMap = Record<string, string | number | boolean>;
+
+  export interface DistinctValue {
     value: string;
+    count: number;
+    target?: string | number | boolean;
+  }
+
+  export type SplitRule =
+    | { delimiter: string; limit?: number }
+    | { pattern: RegExp }
+    | ((value: unknown, row: Record<string, unknown>) => unknown[] | Record<string, unknown> | null | undefined);
+
+  export type MappedColumns = Pick<MappedField, 'field' | 'value' | 'fields' | 'separator' | 'template' | 'split' | 'part' | 'values'>;
+
+  export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'email' | 'enum';
+
+  export interface MappedData {
+    [key: string]: unknown;
+  }
+
+  type PathLeaf = string | number | boolean | bigint | symbol | null | undefined | Date | ((...args: never[]) => unknown);
+
+  type PathDepth = [never, 0, 1, 2, 3, 4];
+
+  type SubPath<TKey extends string, TValue, TDepth extends number> =
+    TValue extends PathLeaf
+      ? never
+      : TValue extends readonly (infer TItem)[]
+        ? `${TKey}[${number}]` | (TItem extends PathLeaf ? never : `${TKey}[${number}].${RecordPath<TItem, TDepth>}`)
+        : `${TKey}.${RecordPath<TValue, TDepth>}`;
+
+  export type RecordPath<TRecord, TDepth extends number = 5> = [TDepth] extends [never]
+    ? never
+    : {
+        [TKey in Extract<keyof TRecord, string>]-?: TKey | SubPath<TKey, NonNullable<TRecord[TKey]>, PathDepth[TDepth]>;
+      }[Extract<keyof TRecord, string>];
+
+  export type MappingOption<TRecord extends object = MappedData> = KeyedMappingOption<RecordPath<TRecord>>;
+
+  export interface KeyedMappingOption<TKey extends string = string> {
+    label: string;
+    value: TKey;
     required?: boolean;
+    aliases?: string[];
+    type?: FieldType;
+    enum?: (string | number | boolean)[];
+    defaultValue?: unknown;
+    validation?: FieldValidation;
+    unique?: boolean;
+    transform?: TransformStep | TransformStep[];
+  }
+
+  export type TransformStep =
+    | 'trim'
+    | 'collapseWhitespace'
+    | 'uppercase'
+    | 'lowercase'
+    | 'titleCase'
+    | 'digitsOnly'
+    | ((value: unknown, row: Record<string, unknown>) => unknown);
+
+  export interface FieldValidation {
+    pattern?: RegExp;
+    min?: number | Date;
+    max?: number | Date;
+    minLength?: number;
+    maxLength?: number;
+    validate?: (value: unknown, row: Record<string, unknown>) => string | undefined | null | void;
+    validateAsync?: (values: unknown[]) => Promise<(string | undefined | null | void)[]>;
+    message?: string;
+    severity?: ErrorSeverity;
+  }
+
+  export interface RowIssue {
+    message: string;
+    field?: string;
+    severity?: ErrorSeverity;
+  }
+
+  export interface RowValidationContext {
+    rowIndex: number;
+    row: Record<string, unknown>;
+  }
+
+  export type RowValidator = (
+    record: Record<string, unknown>,
+    context: RowValidationContext
+  ) => string | RowIssue | (string | RowIssue)[] | undefined | null | void;
+
+  export interface AsyncValidationConfig {
+    batchSize?: number;
+    concurrency?: number;
+  }
+
+  export interface AutoMatchConfig {
+    threshold?: number;
+  }
+
+  export interface MappingTemplate {
+    name: string;
+    fingerprint: string;
+    columns: string[];
+    map: (Omit<MappedColumns, 'split' | 'part'> & Pick<MappedField, 'saved'>)[];
+    updatedAt: number;
   }
 
+  export interface TemplateStore {
+    load: (fingerprint: string) => Promise<MappingTemplate | undefined>;
+    save: (template: MappingTemplate) => Promise<void>;
+    list: () => Promise<MappingTemplate[]>;
+    remove: (fingerprint: string) => Promise<void>;
+  }
+
+  export type ErrorSeverity = 'error' | 'warning' | 'info';
+
   export interface MappingError {
     option: MappingOption;
     message: string;
     type?: 'validation' | 'security' | 'performance' | 'accessibility';
+    severity?: ErrorSeverity;
+    rowIndex?: number;
+    column?: string;
+    value?: string;
+    cellValue?: unknown;
+    conflicts?: DuplicateLocation[];
+  }
+
+  export type DuplicatePolicy = 'error' | 'warn' | 'keepFirst' | 'keepLast';
+
+  export interface DuplicateLocation {
+    fileName: string;
+    rowIndex: number;
   }
 
   export interface PerformanceMetrics {
@@ -63,14 +198,46 @@ declare module 'react-spreadsheet-mapper' {
     name: string;
     columns: string[];
     data: Record<string, unknown>[];
+    totalRows?: number;
+    getAllRows?: (options?: { reportProgress?: boolean }) => Record<string, unknown>[];
+    loadAllRows?: () => Promise<Record<string, unknown>[]>;
+    warnings?: MappingError[];
     metrics?: PerformanceMetrics;
+    sheet?: string;
+    headerRow?: number | HeaderRowRange;
+    headerConfidence?: number;
+    rawRows?: unknown[][];
+    withHeaderRow?: (headerRow: number | HeaderRowRange, dataStartRow?: number) => SpreadsheetData;
+  }
+
+  export type HeaderRowRange = [number, number];
+
+  export interface SheetSummary {
+    name: string;
+    index: number;
+    rowCount: number;
+    columnCount: number;
+    sampleRows: unknown[][];
+  }
+
+  export interface WorkbookInfo {
+    fileName: string;
+    sheets: SheetSummary[];
+  }
+
+  export interface ProcessingProgress {
+    phase: 'reading' | 'rows';
+    loaded: number;
+    total: number;
   }
 
   export interface FileProcessingState {
     file: File;
-    status: 'pending' | 'processing' | 'completed' | 'error';
+    status: 'pending' | 'processing' | 'selectingSheets' | 'completed' | 'error' | 'cancelled';
     error?: string;
     data?: SpreadsheetData;
+    workbook?: WorkbookInfo;
+    progress?: ProcessingProgress;
   }
 
   export interface PerformanceSummary {
@@ -82,31 +249,57 @@ declare module 'react-spreadsheet-mapper' {
     averageFileSize: number;
   }
 
-  export interface UseSpreadsheetMapperProps {
-    options: MappingOption[];
-    onFinish: (data: SpreadsheetData & { map: { field: string; value: string }[] }) => void;
+  export interface UseSpreadsheetMapperProps<TRecord extends object = MappedData, TOutput extends OutputMode = OutputMode> {
+    options: MappingOption<TRecord>[];
+    onFinish: (data: MappedResult<TRecord, TOutput>) => void;
     config?: SpreadsheetConfig;
     clientId?: string;
     onAnnounce?: (message: string, type?: 'success' | 'error' | 'info') => void;
+    autoMatch?: boolean | AutoMatchConfig;
+    templateStore?: TemplateStore;
+    rowValidators?: RowValidator[];
+    duplicatePolicy?: DuplicatePolicy;
+    asyncValidation?: AsyncValidationConfig;
+    output?: TOutput;
+    allowColumnReuse?: boolean;
+    selectSheets?: boolean;
   }
 
+  export type MappedResult<TRecord extends object = MappedData, TOutput extends OutputMode = OutputMode> = SpreadsheetData & {
+    map: MappedColumns[];
+    warnings: MappingError[];
+  } & ([TOutput] extends ['records'] ? { records: TRecord[] } : { records?: TRecord[] });
+
+  export type OutputMode = 'rows' | 'records';
+
   export interface UseSpreadsheetMapperReturn {
     map: MappedField[];
     errors: MappingError[];
     processedFiles: SpreadsheetData[];
     fileProcessingStates: FileProcessingState[];
     isProcessing: boolean;
+    validating: boolean;
     performanceMetrics: PerformanceMetrics[];
     updateOrCreate: (item: MappedField) => void;
     save: (field: string) => void;
+    getDistinctValues: (file: SpreadsheetData, value: string) => DistinctValue[];
+    setValueMapping: (value: string, source: string, target: string | number | boolean | undefined, fileName?: string) => void;
     finish: () => void;
     handleFiles: (files: File[]) => void;
-    handleFileFinish: (data: SpreadsheetData) => void;
+    handleFileFinish: (data: SpreadsheetData) => Promise<void> | void;
+    cancel: (fileName?: string) => void;
+    chooseSheets: (fileName: string, sheets: (string | number)[]) => void;
+    setHeaderRow: (fileName: string, headerRow: number | HeaderRowRange, dataStartRow?: number) => Promise<void>;
+    saveTemplate: (name: string, fileName?: string) => Promise<MappingTemplate | undefined>;
     reset: () => void;
     getPerformanceSummary: () => PerformanceSummary | null;
     announce: (message: string, type?: 'success' | 'error' | 'info') => void;
   }
 
-  export function useSpreadsheetMapper(props: UseSpreadsheetMapperProps): UseSpreadsheetMapperReturn;
+  export function useSpreadsheetMapper<TRecord extends object = MappedData, TOutput extends OutputMode = OutputMode>(
+    props: UseSpreadsheetMapperProps<TRecord, TOutput>
+  ): UseSpreadsheetMapperReturn;
   export default useSpreadsheetMapper;
+
+  export function getMappedColumns(map: MappedField[]): string[];
 }
\ No newline at end of file
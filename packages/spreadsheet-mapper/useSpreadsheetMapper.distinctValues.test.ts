@@ -0,0 +1,53 @@
+import useSpreadsheetMapper from './useSpreadsheetMapper';
+import { renderHook, act } from '@testing-library/react-hooks';
+import { describe, it, expect, vi } from 'vitest';
+import type { MappingOption } from './types';
+
+// Runs against the real SpreadSheetService, so files are read and their rows shaped as in an app
+describe('useSpreadsheetMapper getDistinctValues', () => {
+  const options: MappingOption[] = [{ label: 'Country', value: 'country', type: 'enum', enum: ['NZ', 'AU'] }];
+
+  it('should list distinct values while rendering without reporting progress or reading the rows again', async () => {
+    const onProgress = vi.fn();
+    const config = { performance: { onProgress } };
+    let renders = 0;
+
+    const { result, rerender, waitFor } = renderHook(() => {
+      renders++;
+      const mapper = useSpreadsheetMapper({ options, onFinish: vi.fn(), config });
+      const file = mapper.processedFiles[0];
+      return { mapper, values: file ? mapper.getDistinctValues(file, 'country') : [] };
+    });
+
+    await act(async () => {
+      result.current.mapper.handleFiles([
+        new File(['Name,Country\nAda,New Zealand\nBob,NZ\nCy,New Zealand'], 'people.csv', { type: 'text/csv' })
+      ]);
+    });
+    await waitFor(() => result.current.mapper.processedFiles.length === 1);
+
+    act(() => {
+      result.current.mapper.updateOrCreate({ field: 'Country', value: 'country' });
+    });
+
+    expect(result.current.values).toEqual([
+      { value: 'New Zealand', count: 2 },
+      { value: 'NZ', count: 1, target: 'NZ' }
+    ]);
+    expect(onProgress.mock.calls.map(([progress]) => progress.phase)).not.toContain('rows');
+
+    const { values } = result.current;
+    const rendersBefore = renders;
+    rerender();
+    rerender();
+
+    expect(renders).toBe(rendersBefore + 2);
+    expect(result.current.values).toBe(values);
+
+    act(() => {
+      result.current.mapper.setValueMapping('country', 'New Zealand', 'NZ');
+    });
+
+    expect(result.current.values.map(item => item.target)).toEqual(['NZ', 'NZ']);
+  });
+});
@@ -1,6 +1,19 @@
 import useSpreadsheetMapper from './useSpreadsheetMapper';
+import SpreadSheetService, { inspectWorkbook, processSheets } from './SpreadsheetService';
+import { createMemoryTemplateStore } from './mappingTemplates';
 import { vi } from 'vitest';
 import { renderHook, act } from '@testing-library/react-hooks';
+import type { MappedResult, MappingOption, SpreadsheetData, WorkbookInfo } from './types';
+
+vi.mock('./SpreadsheetService', () => ({
+  default: vi.fn(),
+  inspectWorkbook: vi.fn(),
+  processSheets: vi.fn()
+}));
+
+const mockService = SpreadSheetService as unknown as ReturnType<typeof vi.fn>;
+const mockInspect = inspectWorkbook as unknown as ReturnType<typeof vi.fn>;
+const mockProcessSheets = processSheets as unknown as ReturnType<typeof vi.fn>;
 
 describe('useSpreadsheetMapper', () => {
   const mockOnFinish = vi.fn();
@@ -177,8 +190,467 @@ describe('useSpreadsheetMapper', () => {
       map: [
         { field: 'Full Name', value: 'name' },
         { field: 'Email Address', value: 'email' }
+      ],
+      warnings: []
+    });
+  });
+
+  it('should combine several columns into one option when finishing', () => {
+    const data = {
+      name: 'people.csv',
+      columns: ['First', 'Last', 'Email'],
+      data: [
+        { First: 'Ada', Last: 'Lovelace', Email: 'ada@example.com' },
+        { First: 'Alan', Last: '', Email: 'alan@example.com' }
+      ]
+    };
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [
+          { label: 'Full name', value: 'fullName', required: true, transform: 'uppercase' },
+          { label: 'Email', value: 'email' }
+        ],
+        onFinish: mockOnFinish,
+        output: 'records'
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'First + Last', value: 'fullName', fields: ['First', 'Last'], saved: true });
+      result.current.updateOrCreate({ field: 'Email', value: 'email' });
+    });
+
+    act(() => {
+      result.current.handleFileFinish(data);
+    });
+
+    const payload = mockOnFinish.mock.calls[0]?.[0];
+    expect(payload.records).toEqual([
+      { fullName: 'ADA LOVELACE', email: 'ada@example.com' },
+      { fullName: 'ALAN', email: 'alan@example.com' }
+    ]);
+    expect(payload.map).toEqual([
+      { field: 'First + Last', value: 'fullName', fields: ['First', 'Last'] },
+      { field: 'Email', value: 'email' }
+    ]);
+  });
+
+  it('should block finishing when a column fills several options without allowColumnReuse', () => {
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [
+          { label: 'Email', value: 'email' },
+          { label: 'Username', value: 'username' }
+        ],
+        onFinish: mockOnFinish
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Email Address', value: 'email' });
+      result.current.updateOrCreate({ field: 'Email Address', value: 'username' });
+    });
+
+    act(() => {
+      result.current.handleFileFinish(mockSpreadsheetData);
+    });
+
+    expect(mockOnFinish).not.toHaveBeenCalled();
+    expect(result.current.errors).toEqual([
+      expect.objectContaining({
+        message: 'Email Address is mapped to Email and Username, but a column can only fill one option',
+        column: 'Email Address',
+        severity: 'error'
+      })
+    ]);
+  });
+
+  it('should let one column fill several options independently with allowColumnReuse', () => {
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [
+          { label: 'Email', value: 'email', transform: 'uppercase' },
+          { label: 'Username', value: 'username', transform: (value: unknown) => String(value).split('@')[0] }
+        ],
+        onFinish: mockOnFinish,
+        output: 'records',
+        allowColumnReuse: true
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Email Address', value: 'email' });
+      result.current.updateOrCreate({ field: 'Email Address', value: 'username' });
+    });
+
+    act(() => {
+      result.current.handleFileFinish(mockSpreadsheetData);
+    });
+
+    const payload = mockOnFinish.mock.calls[0]?.[0];
+    expect(payload.map).toEqual([
+      { field: 'Email Address', value: 'email' },
+      { field: 'Email Address', value: 'username' }
+    ]);
+    expect(payload.records).toEqual([
+      { email: 'JOHN@EXAMPLE.COM', username: 'john' },
+      { email: 'JANE@EXAMPLE.COM', username: 'jane' }
+    ]);
+    expect(payload.data[0]).toMatchObject({ 'Email Address': 'JOHN@EXAMPLE.COM', 'Email Address → username': 'john' });
+  });
+
+  it('should list distinct values and finish once every value is mapped to an allowed one', () => {
+    const data = {
+      name: 'people.csv',
+      columns: ['Name', 'Country'],
+      data: [
+        { Name: 'Ada', Country: 'New Zealand' },
+        { Name: 'Bob', Country: 'NZ' },
+        { Name: 'Cy', Country: 'Oz' },
+        { Name: 'Di', Country: 'New Zealand' }
       ]
+    };
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [{ label: 'Country', value: 'country', type: 'enum', enum: ['NZ', 'AU'] }],
+        onFinish: mockOnFinish
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Country', value: 'country' });
+    });
+
+    expect(result.current.getDistinctValues(data, 'country')).toEqual([
+      { value: 'New Zealand', count: 2 },
+      { value: 'NZ', count: 1, target: 'NZ' },
+      { value: 'Oz', count: 1 }
+    ]);
+
+    act(() => {
+      result.current.handleFileFinish(data);
+    });
+
+    expect(mockOnFinish).not.toHaveBeenCalled();
+    expect(result.current.errors.map(error => error.message)).toEqual([
+      "Row 1, Country: 'New Zealand' is not one of NZ, AU",
+      "Row 3, Country: 'Oz' is not one of NZ, AU",
+      "Row 4, Country: 'New Zealand' is not one of NZ, AU"
+    ]);
+
+    act(() => {
+      result.current.setValueMapping('country', 'New Zealand', 'NZ');
+      result.current.setValueMapping('country', 'Oz', 'AU');
+    });
+
+    expect(result.current.map[0]?.values).toEqual({ 'New Zealand': 'NZ', Oz: 'AU' });
+    expect(result.current.getDistinctValues(data, 'country').map(item => item.target)).toEqual(['NZ', 'NZ', 'AU']);
+
+    act(() => {
+      result.current.handleFileFinish(data);
+    });
+
+    const payload = mockOnFinish.mock.calls[0]?.[0];
+    expect(payload.data.map((row: Record<string, unknown>) => row['Country'])).toEqual(['NZ', 'NZ', 'AU', 'NZ']);
+    expect(payload.map).toEqual([{ field: 'Country', value: 'country', values: { 'New Zealand': 'NZ', Oz: 'AU' } }]);
+  });
+
+  it('should pass target-shaped records to onFinish in records mode', () => {
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [
+          { label: 'Name', value: 'name' },
+          { label: 'Email', value: 'email' },
+          { label: 'Source', value: 'source', defaultValue: 'import' },
+          { label: 'Age', value: 'age' }
+        ],
+        onFinish: mockOnFinish,
+        output: 'records'
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Full Name', value: 'name' });
+      result.current.updateOrCreate({ field: 'Email Address', value: 'email' });
+    });
+
+    act(() => {
+      result.current.handleFileFinish(mockSpreadsheetData);
+    });
+
+    const payload = mockOnFinish.mock.calls[0]?.[0];
+    expect(payload.records).toEqual([
+      { name: 'John Doe', email: 'john@example.com', source: 'import' },
+      { name: 'Jane Smith', email: 'jane@example.com', source: 'import' }
+    ]);
+    expect(payload.data).toEqual(mockSpreadsheetData.data);
+  });
+
+  it('should block finishing in records mode when option paths overlap', () => {
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [
+          { label: 'Name', value: 'contact' },
+          { label: 'Email', value: 'contact.email' }
+        ],
+        onFinish: mockOnFinish,
+        output: 'records'
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Full Name', value: 'contact' });
+      result.current.updateOrCreate({ field: 'Email Address', value: 'contact.email' });
+    });
+
+    act(() => {
+      result.current.handleFileFinish(mockSpreadsheetData);
+    });
+
+    expect(mockOnFinish).not.toHaveBeenCalled();
+    expect(result.current.errors[0]?.message).toBe('Email (contact.email) overlaps with Name (contact)');
+  });
+
+  it('should check options against the record type and type records in onFinish', () => {
+    interface Contact {
+      name: string;
+      email: string;
+    }
+    const onFinish = vi.fn((result: MappedResult<Contact, 'records'>) => result.records.map(record => record.email));
+
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper<Contact, 'records'>({
+        options: [
+          { label: 'Name', value: 'name' },
+          { label: 'Email', value: 'email' }
+        ],
+        onFinish,
+        output: 'records'
+      })
+    );
+
+    // @ts-expect-error 'mail' is not a key of Contact
+    const typo: MappingOption<Contact> = { label: 'Email', value: 'mail' };
+    expect(typo.value).toBe('mail');
+
+    // records are only guaranteed in records mode
+    // @ts-expect-error 'records' is possibly undefined
+    const rowsModeFinish = (data: MappedResult<Contact, 'rows'>): Contact[] => data.records;
+    expect(rowsModeFinish).toBeDefined();
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Email Address', value: 'email' });
+    });
+
+    act(() => {
+      result.current.handleFileFinish(mockSpreadsheetData);
+    });
+
+    expect(onFinish.mock.results[0]?.value).toEqual(['john@example.com', 'jane@example.com']);
+  });
+
+  it('should pass every row to onFinish when the file exposes getAllRows', () => {
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: defaultOptions,
+        onFinish: mockOnFinish
+      })
+    );
+
+    const allRows = [
+      ...mockSpreadsheetData.data,
+      { 'Full Name': 'Bob Jones', 'Email Address': 'bob@example.com', 'Phone Number': '555-000-1111' }
+    ];
+    const fileData = { ...mockSpreadsheetData, totalRows: 3, getAllRows: () => allRows };
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Full Name', value: 'name' });
+      result.current.updateOrCreate({ field: 'Email Address', value: 'email' });
     });
+
+    act(() => {
+      result.current.save('name');
+      result.current.save('email');
+    });
+
+    act(() => {
+      result.current.handleFileFinish(fileData);
+    });
+
+    expect(mockOnFinish).toHaveBeenCalledTimes(1);
+    expect(mockOnFinish.mock.calls[0]?.[0].data).toEqual(allRows);
+  });
+
+  it('should coerce typed options and block onFinish on conversion failures', () => {
+    const typedOptions = [
+      { label: 'Name', value: 'name', required: true },
+      { label: 'Phone', value: 'phone', type: 'integer' as const }
+    ];
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: typedOptions,
+        onFinish: mockOnFinish
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Full Name', value: 'name' });
+      result.current.updateOrCreate({ field: 'Phone Number', value: 'phone' });
+    });
+
+    act(() => {
+      result.current.save('name');
+    });
+
+    act(() => {
+      result.current.handleFileFinish(mockSpreadsheetData);
+    });
+
+    expect(mockOnFinish).not.toHaveBeenCalled();
+    expect(result.current.errors.map(error => error.message)).toEqual([
+      "Row 1, Phone: '123-456-7890' is not a valid number",
+      "Row 2, Phone: '098-765-4321' is not a valid number"
+    ]);
+
+    act(() => {
+      result.current.handleFileFinish({
+        ...mockSpreadsheetData,
+        data: [{ 'Full Name': 'John Doe', 'Phone Number': '1234567' }]
+      });
+    });
+
+    expect(result.current.errors).toEqual([]);
+    expect(mockOnFinish.mock.calls[0]?.[0].data).toEqual([{ 'Full Name': 'John Doe', 'Phone Number': 1234567 }]);
+  });
+
+  it('should report cell validation failures with their location', () => {
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [
+          { label: 'Email', value: 'email', validation: { pattern: /^[^@]+@[^@]+\.[a-z]+$/, message: 'is not a valid email' } }
+        ],
+        onFinish: mockOnFinish
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Email Address', value: 'email' });
+    });
+
+    act(() => {
+      result.current.handleFileFinish({
+        ...mockSpreadsheetData,
+        data: [{ 'Email Address': 'john@example.com' }, { 'Email Address': 'bob@' }]
+      });
+    });
+
+    expect(mockOnFinish).not.toHaveBeenCalled();
+    expect(result.current.errors).toEqual([
+      expect.objectContaining({
+        message: 'Row 2, Email: is not a valid email',
+        rowIndex: 1,
+        column: 'Email Address',
+        value: 'email',
+        cellValue: 'bob@'
+      })
+    ]);
+  });
+
+  it('should block finishing while row validators report issues', () => {
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [
+          { label: 'Email', value: 'email' },
+          { label: 'Phone', value: 'phone' }
+        ],
+        onFinish: mockOnFinish,
+        rowValidators: [
+          (record) => (!record['email'] && !record['phone'] ? { message: 'needs an email or phone', field: 'email' } : undefined)
+        ]
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Email Address', value: 'email' });
+      result.current.updateOrCreate({ field: 'Phone Number', value: 'phone' });
+    });
+
+    act(() => {
+      result.current.handleFileFinish({
+        ...mockSpreadsheetData,
+        data: [{ 'Email Address': 'john@example.com' }, { 'Email Address': '', 'Phone Number': '' }]
+      });
+    });
+
+    expect(mockOnFinish).not.toHaveBeenCalled();
+    expect(result.current.errors).toEqual([
+      expect.objectContaining({
+        message: 'Row 2, Email: needs an email or phone',
+        rowIndex: 1,
+        column: 'Email Address',
+        value: 'email'
+      })
+    ]);
+  });
+
+  it('should finish despite warnings and pass them to onFinish', () => {
+    const fileWarning = {
+      option: { label: 'test.xlsx', value: 'test.xlsx' },
+      message: 'Large file detected',
+      type: 'performance' as const,
+      severity: 'warning' as const
+    };
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [{ label: 'Email', value: 'email', validation: { pattern: /@example\.com$/, message: 'is not a company address', severity: 'warning' } }],
+        onFinish: mockOnFinish,
+        rowValidators: [(_, { rowIndex }) => (rowIndex === 0 ? { message: 'looks like a test row', severity: 'info' } : undefined)]
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Email Address', value: 'email' });
+    });
+
+    act(() => {
+      result.current.handleFileFinish({
+        ...mockSpreadsheetData,
+        data: [{ 'Email Address': 'john@example.com' }, { 'Email Address': 'bob@gmail.com' }],
+        warnings: [fileWarning]
+      });
+    });
+
+    expect(mockOnFinish).toHaveBeenCalledTimes(1);
+    const warnings = mockOnFinish.mock.calls[0]?.[0].warnings;
+    expect(warnings).toEqual([
+      expect.objectContaining({ message: 'Row 1: looks like a test row', severity: 'info' }),
+      expect.objectContaining({ message: 'Row 2, Email: is not a company address', severity: 'warning', rowIndex: 1 }),
+      fileWarning
+    ]);
+    expect(result.current.errors).toEqual(warnings);
+  });
+
+  it('should still block on errors when warnings are present', () => {
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [{ label: 'Email', value: 'email', type: 'email', validation: { maxLength: 5, severity: 'warning' } }],
+        onFinish: mockOnFinish
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Email Address', value: 'email' });
+    });
+
+    act(() => {
+      result.current.handleFileFinish({
+        ...mockSpreadsheetData,
+        data: [{ 'Email Address': 'john@example.com' }, { 'Email Address': 'bob@' }]
+      });
+    });
+
+    expect(mockOnFinish).not.toHaveBeenCalled();
+    expect(result.current.errors.map(error => error.severity)).toEqual(['warning', 'error']);
   });
 
   it('should allow optional fields to be unmapped', () => {
@@ -247,4 +719,794 @@ describe('useSpreadsheetMapper', () => {
     expect(result.current.errors).toEqual([]);
     expect(result.current.processedFiles).toEqual([]);
   });
+
+  it('should surface reading and row progress on the file processing state', async () => {
+    const onProgress = vi.fn();
+    let resolveRows: (rows: Record<string, unknown>[]) => void = () => undefined;
+    mockService.mockImplementation(async (file: File, config: { performance: { onProgress: (progress: unknown) => void } }) => {
+      config.performance.onProgress({ phase: 'reading', loaded: 512, total: 1024 });
+      return {
+        ...mockSpreadsheetData,
+        name: file.name,
+        loadAllRows: () => {
+          config.performance.onProgress({ phase: 'rows', loaded: 1, total: 2 });
+          return new Promise<Record<string, unknown>[]>((resolve) => { resolveRows = resolve; });
+        }
+      };
+    });
+
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [{ label: 'Name', value: 'name' }],
+        onFinish: mockOnFinish,
+        config: { performance: { onProgress } }
+      })
+    );
+
+    await act(async () => {
+      result.current.handleFiles([new File(['Name'], 'progress.csv', { type: 'text/csv' })]);
+    });
+
+    expect(result.current.fileProcessingStates[0]?.progress).toEqual({ phase: 'reading', loaded: 512, total: 1024 });
+    expect(onProgress).toHaveBeenCalledWith({ phase: 'reading', loaded: 512, total: 1024 });
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Full Name', value: 'name', saved: true });
+    });
+
+    let finishing: Promise<void> | void;
+    act(() => {
+      finishing = result.current.handleFileFinish(result.current.processedFiles[0]!);
+    });
+
+    // Rows are still being shaped, and the file shows how far along they are
+    expect(result.current.fileProcessingStates[0]?.progress).toEqual({ phase: 'rows', loaded: 1, total: 2 });
+    expect(onProgress).toHaveBeenCalledWith({ phase: 'rows', loaded: 1, total: 2 });
+    expect(mockOnFinish).not.toHaveBeenCalled();
+
+    await act(async () => {
+      resolveRows(mockSpreadsheetData.data);
+      await finishing;
+    });
+
+    expect(mockOnFinish.mock.calls[0]?.[0].data).toHaveLength(2);
+  });
+
+  it('should propose unsaved mappings for loaded files when autoMatch is enabled', async () => {
+    mockService.mockImplementation(async (file: File) => ({ ...mockSpreadsheetData, name: file.name }));
+
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [
+          { label: 'Name', value: 'name', required: true, aliases: ['Full Name'] },
+          { label: 'Email', value: 'email', required: true }
+        ],
+        onFinish: mockOnFinish,
+        autoMatch: true
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Full Name', value: 'name' });
+    });
+
+    await act(async () => {
+      result.current.handleFiles([new File(['Name'], 'test.xlsx')]);
+    });
+
+    expect(result.current.map).toEqual([
+      { field: 'Full Name', value: 'name' },
+      { field: 'Email Address', value: 'email', saved: false, confidence: expect.any(Number), fileName: 'test.xlsx' }
+    ]);
+    expect(result.current.map[1]?.confidence).toBeGreaterThanOrEqual(0.6);
+  });
+
+  it('should leave suggestions the user has not saved out of the finished mapping', async () => {
+    mockService.mockImplementation(async (file: File) => ({ ...mockSpreadsheetData, name: file.name }));
+
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [
+          { label: 'Name', value: 'name', required: true, aliases: ['Full Name'] },
+          { label: 'Phone', value: 'phone', aliases: ['Phone Number'] }
+        ],
+        onFinish: mockOnFinish,
+        autoMatch: true,
+        output: 'records'
+      })
+    );
+
+    await act(async () => {
+      result.current.handleFiles([new File(['Name'], 'test.xlsx')]);
+    });
+
+    expect(result.current.map.map(item => item.value)).toEqual(['name', 'phone']);
+
+    // An unconfirmed suggestion does not count as mapping a required option
+    act(() => {
+      result.current.finish();
+    });
+    expect(result.current.errors.map(error => error.message)).toEqual(['Name is required']);
+
+    act(() => {
+      result.current.save('name', 'test.xlsx');
+    });
+    act(() => {
+      result.current.finish();
+    });
+    expect(result.current.errors).toEqual([]);
+
+    act(() => {
+      result.current.handleFileFinish(result.current.processedFiles[0]!);
+    });
+
+    const finished = mockOnFinish.mock.calls[0]?.[0];
+    expect(finished.map).toEqual([{ field: 'Full Name', value: 'name' }]);
+    expect(finished.records).toEqual([{ name: 'John Doe' }, { name: 'Jane Smith' }]);
+  });
+
+  it('should expose a validating state while async validators run and merge their errors', async () => {
+    let resolveLookup: (messages: (string | undefined)[]) => void = () => undefined;
+    const validateAsync = vi.fn(() => new Promise<(string | undefined)[]>((resolve) => {
+      resolveLookup = resolve;
+    }));
+
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [{ label: 'Email', value: 'email', validation: { validateAsync } }],
+        onFinish: mockOnFinish
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Email Address', value: 'email' });
+    });
+
+    let finished: Promise<void> | void = undefined;
+    act(() => {
+      finished = result.current.handleFileFinish(mockSpreadsheetData);
+    });
+
+    expect(result.current.validating).toBe(true);
+    expect(validateAsync).toHaveBeenCalledWith(['john@example.com', 'jane@example.com']);
+
+    await act(async () => {
+      resolveLookup([undefined, 'is not a registered customer']);
+      await finished;
+    });
+
+    expect(result.current.validating).toBe(false);
+    expect(mockOnFinish).not.toHaveBeenCalled();
+    expect(result.current.errors).toEqual([
+      expect.objectContaining({
+        message: 'Row 2, Email: is not a registered customer',
+        rowIndex: 1,
+        column: 'Email Address'
+      })
+    ]);
+  });
+
+  it('should finish once async validators pass', async () => {
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [{ label: 'Email', value: 'email', validation: { validateAsync: async (values) => values.map(() => undefined) } }],
+        onFinish: mockOnFinish
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Email Address', value: 'email' });
+    });
+
+    await act(async () => {
+      await result.current.handleFileFinish(mockSpreadsheetData);
+    });
+
+    expect(result.current.errors).toEqual([]);
+    expect(mockOnFinish).toHaveBeenCalledTimes(1);
+  });
+
+  it('should show transformed values in the preview without transforming them twice when finishing', async () => {
+    mockService.mockResolvedValue({
+      ...mockSpreadsheetData,
+      data: [{ 'Full Name': '  john   DOE ', 'Phone Number': '123-456-7890' }]
+    });
+    const appendSuffix = (value: unknown) => `${value}!`;
+
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [
+          { label: 'Name', value: 'name', transform: ['trim', 'collapseWhitespace', 'titleCase', appendSuffix] },
+          { label: 'Phone', value: 'phone', transform: 'digitsOnly' }
+        ],
+        onFinish: mockOnFinish
+      })
+    );
+
+    await act(async () => {
+      result.current.handleFiles([new File(['Name'], 'test.xlsx')]);
+    });
+
+    expect(result.current.processedFiles[0]?.data).toEqual([{ 'Full Name': '  john   DOE ', 'Phone Number': '123-456-7890' }]);
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Full Name', value: 'name' });
+      result.current.updateOrCreate({ field: 'Phone Number', value: 'phone' });
+    });
+
+    const preview = result.current.processedFiles[0];
+    expect(preview?.data).toEqual([{ 'Full Name': 'John Doe!', 'Phone Number': '1234567890' }]);
+
+    act(() => {
+      if (preview) result.current.handleFileFinish(preview);
+    });
+
+    expect(mockOnFinish.mock.calls[0]?.[0].data).toEqual([{ 'Full Name': 'John Doe!', 'Phone Number': '1234567890' }]);
+  });
+
+  it('should preview split values row by row and map each part to its own option', async () => {
+    mockService.mockResolvedValue({
+      ...mockSpreadsheetData,
+      data: [{ 'Full Name': 'John Doe', 'Email Address': 'john@example.com' }, { 'Full Name': 'Cher', 'Email Address': '' }]
+    });
+    const byWord = { delimiter: ' ', limit: 2 };
+
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [
+          { label: 'First name', value: 'firstName', required: true },
+          { label: 'Last name', value: 'lastName' }
+        ],
+        onFinish: mockOnFinish,
+        output: 'records'
+      })
+    );
+
+    await act(async () => {
+      result.current.handleFiles([new File(['Name'], 'test.xlsx')]);
+    });
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'First', value: 'firstName', fields: ['Full Name'], split: byWord, part: 0, saved: true });
+      result.current.updateOrCreate({ field: 'Last', value: 'lastName', fields: ['Full Name'], split: byWord, part: 1 });
+    });
+
+    const preview = result.current.processedFiles[0];
+    expect(preview?.data.map(row => [row['First'], row['Last']])).toEqual([['John', 'Doe'], ['Cher', '']]);
+
+    act(() => {
+      if (preview) result.current.handleFileFinish(preview);
+    });
+
+    expect(mockOnFinish.mock.calls[0]?.[0].records).toEqual([
+      { firstName: 'John', lastName: 'Doe' },
+      { firstName: 'Cher', lastName: '' }
+    ]);
+  });
+
+  it('should block finishing on values duplicated in another processed file', async () => {
+    mockService.mockImplementation(async (file: File) => ({ ...mockSpreadsheetData, name: file.name }));
+
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [{ label: 'Email', value: 'email', unique: true }],
+        onFinish: mockOnFinish
+      })
+    );
+
+    await act(async () => {
+      result.current.handleFiles([new File(['Name'], 'first.xlsx'), new File(['Name'], 'second.xlsx')]);
+    });
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Email Address', value: 'email' });
+    });
+
+    act(() => {
+      result.current.handleFileFinish({
+        ...mockSpreadsheetData,
+        name: 'second.xlsx',
+        data: [{ 'Email Address': 'someone@example.com' }, { 'Email Address': 'jane@example.com' }]
+      });
+    });
+
+    expect(mockOnFinish).not.toHaveBeenCalled();
+    expect(result.current.errors).toEqual([
+      expect.objectContaining({
+        message: "Row 2, Email: 'jane@example.com' is also in row 2 of first.xlsx",
+        rowIndex: 1,
+        conflicts: [{ fileName: 'first.xlsx', rowIndex: 1 }]
+      })
+    ]);
+  });
+
+  it('should finish with one row per unique value under a keep-first policy', () => {
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [{ label: 'Email', value: 'email', unique: true }],
+        onFinish: mockOnFinish,
+        duplicatePolicy: 'keepFirst'
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Email Address', value: 'email' });
+    });
+
+    act(() => {
+      result.current.handleFileFinish({
+        ...mockSpreadsheetData,
+        data: [{ 'Email Address': 'a@example.com' }, { 'Email Address': 'A@example.com' }, { 'Email Address': 'b@example.com' }]
+      });
+    });
+
+    expect(result.current.errors).toEqual([]);
+    expect(mockOnFinish.mock.calls[0]?.[0].data).toEqual([{ 'Email Address': 'a@example.com' }, { 'Email Address': 'b@example.com' }]);
+  });
+
+  it('should only validate the rows a keep-last policy keeps', async () => {
+    const validateAsync = vi.fn(async (values: unknown[]) => values.map(() => undefined));
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: [
+          { label: 'Email', value: 'email', unique: true, validation: { validateAsync } },
+          { label: 'Age', value: 'age', type: 'number' }
+        ],
+        onFinish: mockOnFinish,
+        duplicatePolicy: 'keepLast'
+      })
+    );
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Email Address', value: 'email' });
+      result.current.updateOrCreate({ field: 'Age', value: 'age' });
+    });
+
+    await act(async () => {
+      await result.current.handleFileFinish({
+        ...mockSpreadsheetData,
+        data: [
+          { 'Email Address': 'a@example.com', Age: 'unknown' },
+          { 'Email Address': 'A@example.com', Age: '31' }
+        ]
+      });
+    });
+
+    expect(validateAsync).toHaveBeenCalledWith(['A@example.com']);
+    expect(result.current.errors).toEqual([]);
+    expect(mockOnFinish.mock.calls[0]?.[0].data).toEqual([{ 'Email Address': 'A@example.com', Age: 31 }]);
+  });
+
+  it('should save a mapping template and re-apply it to a file with matching headers after reset', async () => {
+    mockService.mockImplementation(async (file: File) => ({ ...mockSpreadsheetData, name: file.name }));
+    const templateStore = createMemoryTemplateStore();
+
+    const { result } = renderHook(() =>
+      useSpreadsheetMapper({
+        options: defaultOptions,
+        onFinish: mockOnFinish,
+        templateStore
+      })
+    );
+
+    await act(async () => {
+      result.current.handleFiles([new File(['Name'], 'first.xlsx')]);
+    });
+
+    act(() => {
+      result.current.updateOrCreate({ field: 'Full Name', value: 'name' });
+      result.current.updateOrCreate({ field: 'Email Address', value: 'email' });
+    });
+
+    act(() => {
+      result.current.save('name');
+      result.current.save('email');
+    });
+
+    await act(async () => {
+      await result.current.saveTemplate('Contacts');
+    });
+
+    expect(await templateStore.list()).toHaveLength(1);
+
+    act(() => {
+      result.current.reset();
+    });
+
+    await act(async () => {
+      result.current.handleFiles([new File(['Name'], 'second.xlsx')]);
+    });
+
+    expect(result.current.map).toEqual([
+      { field: 'Full Name', value: 'name', saved: true, fileName: 'second.xlsx' },
+      { field: 'Email Address', value: 'email', saved: true, fileName: 'second.xlsx' }
+    ]);
+  });
+
+  describe('cancellation', () => {
+    const csvFile = (name: string) => new File(['Name\nJohn'], name, { type: 'text/csv' });
+
+    it('should cancel a file and discard its late result', async () => {
+      let resolveService: (data: SpreadsheetData) => void = () => {};
+      mockService.mockImplementation((file: File) => new Promise<SpreadsheetData>((resolve) => {
+        resolveService = (data) => resolve({ ...data, name: file.name });
+      }));
+
+      const { result } = renderHook(() =>
+        useSpreadsheetMapper({
+          options: defaultOptions,
+          onFinish: mockOnFinish
+        })
+      );
+
+      act(() => {
+        result.current.handleFiles([csvFile('slow.csv')]);
+      });
+
+      expect(result.current.fileProcessingStates[0]?.status).toBe('processing');
+      expect(mockService.mock.calls[0]?.[3]).toBeInstanceOf(AbortSignal);
+
+      act(() => {
+        result.current.cancel('slow.csv');
+      });
+
+      expect(mockService.mock.calls[0]?.[3].aborted).toBe(true);
+      expect(result.current.fileProcessingStates[0]?.status).toBe('cancelled');
+      expect(result.current.isProcessing).toBe(false);
+
+      await act(async () => {
+        resolveService(mockSpreadsheetData);
+      });
+
+      expect(result.current.processedFiles).toEqual([]);
+      expect(result.current.fileProcessingStates[0]?.status).toBe('cancelled');
+    });
+
+    it('should only cancel the named file', async () => {
+      mockService.mockImplementation((file: File, _config: unknown, _clientId: string, signal: AbortSignal) =>
+        new Promise<SpreadsheetData>((resolve, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('File processing was cancelled')));
+          setTimeout(() => resolve({ ...mockSpreadsheetData, name: file.name }), 0);
+        })
+      );
+
+      const { result } = renderHook(() =>
+        useSpreadsheetMapper({
+          options: defaultOptions,
+          onFinish: mockOnFinish
+        })
+      );
+
+      act(() => {
+        result.current.handleFiles([csvFile('keep.csv'), csvFile('drop.csv')]);
+      });
+
+      act(() => {
+        result.current.cancel('drop.csv');
+      });
+
+      await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      });
+
+      expect(result.current.fileProcessingStates.map(state => state.status)).toEqual(['completed', 'cancelled']);
+      expect(result.current.processedFiles.map(file => file.name)).toEqual(['keep.csv']);
+      expect(result.current.errors).toEqual([]);
+    });
+
+    it('should abort in-flight work on reset', () => {
+      mockService.mockImplementation(() => new Promise<SpreadsheetData>(() => {}));
+
+      const { result } = renderHook(() =>
+        useSpreadsheetMapper({
+          options: defaultOptions,
+          onFinish: mockOnFinish
+        })
+      );
+
+      act(() => {
+        result.current.handleFiles([csvFile('slow.csv')]);
+      });
+
+      act(() => {
+        result.current.reset();
+      });
+
+      expect(mockService.mock.calls[0]?.[3].aborted).toBe(true);
+      expect(result.current.fileProcessingStates).toEqual([]);
+    });
+  });
+  describe('sheet selection', () => {
+    const workbookFile = () => new File(['x'], 'report.xlsx', {
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    });
+    const workbook: WorkbookInfo = {
+      fileName: 'report.xlsx',
+      sheets: [
+        { name: 'Q1', index: 0, rowCount: 3, columnCount: 2, sampleRows: [['Name', 'Email']] },
+        { name: 'Q2', index: 1, rowCount: 5, columnCount: 2, sampleRows: [['Name', 'Email']] },
+        { name: 'Notes', index: 2, rowCount: 1, columnCount: 1, sampleRows: [['Draft']] }
+      ]
+    };
+
+    beforeEach(() => {
+      mockInspect.mockResolvedValue(workbook);
+      mockService.mockImplementation((file: File, config: { sheet?: string }) => Promise.resolve({
+        ...mockSpreadsheetData,
+        name: file.name,
+        data: [{ 'Full Name': `From ${config.sheet ?? 'first sheet'}` }]
+      }));
+      mockProcessSheets.mockImplementation((file: File, sheets: string[]) => Promise.resolve(sheets.map(sheet => ({
+        ...mockSpreadsheetData,
+        name: file.name,
+        data: [{ 'Full Name': `From ${sheet}` }]
+      }))));
+    });
+
+    it('should not inspect workbooks unless selectSheets is on', async () => {
+      const { result } = renderHook(() =>
+        useSpreadsheetMapper({
+          options: defaultOptions,
+          onFinish: mockOnFinish
+        })
+      );
+
+      await act(async () => {
+        result.current.handleFiles([workbookFile()]);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+
+      expect(mockInspect).not.toHaveBeenCalled();
+      expect(result.current.fileProcessingStates[0]?.status).toBe('completed');
+    });
+
+    it('should wait for a sheet choice before processing a workbook with several sheets', async () => {
+      const { result } = renderHook(() =>
+        useSpreadsheetMapper({
+          options: defaultOptions,
+          onFinish: mockOnFinish,
+          selectSheets: true
+        })
+      );
+
+      await act(async () => {
+        result.current.handleFiles([workbookFile()]);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+
+      expect(mockService).not.toHaveBeenCalled();
+      expect(result.current.processedFiles).toEqual([]);
+      expect(result.current.fileProcessingStates[0]?.status).toBe('selectingSheets');
+      expect(result.current.fileProcessingStates[0]?.workbook).toEqual(workbook);
+      expect(result.current.isProcessing).toBe(false);
+    });
+
+    it('should process a single-sheet workbook without asking', async () => {
+      mockInspect.mockResolvedValue({ ...workbook, sheets: workbook.sheets.slice(0, 1) });
+
+      const { result } = renderHook(() =>
+        useSpreadsheetMapper({
+          options: defaultOptions,
+          onFinish: mockOnFinish,
+          selectSheets: true
+        })
+      );
+
+      await act(async () => {
+        result.current.handleFiles([workbookFile()]);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+
+      expect(mockService).toHaveBeenCalledTimes(1);
+      expect(result.current.fileProcessingStates[0]?.status).toBe('completed');
+      expect(result.current.processedFiles).toHaveLength(1);
+    });
+
+    it('should read one chosen sheet under the file name', async () => {
+      const { result } = renderHook(() =>
+        useSpreadsheetMapper({
+          options: defaultOptions,
+          onFinish: mockOnFinish,
+          selectSheets: true
+        })
+      );
+
+      await act(async () => {
+        result.current.handleFiles([workbookFile()]);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+
+      await act(async () => {
+        result.current.chooseSheets('report.xlsx', ['Q2']);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+
+      expect(mockProcessSheets.mock.calls[0]?.[1]).toEqual(['Q2']);
+      expect(result.current.processedFiles).toHaveLength(1);
+      expect(result.current.processedFiles[0]?.name).toBe('report.xlsx');
+      expect(result.current.processedFiles[0]?.sheet).toBe('Q2');
+      expect(result.current.fileProcessingStates[0]?.status).toBe('completed');
+      expect(result.current.isProcessing).toBe(false);
+    });
+
+    it('should yield one SpreadsheetData per chosen sheet', async () => {
+      const { result } = renderHook(() =>
+        useSpreadsheetMapper({
+          options: defaultOptions,
+          onFinish: mockOnFinish,
+          selectSheets: true
+        })
+      );
+
+      await act(async () => {
+        result.current.handleFiles([workbookFile()]);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+
+      await act(async () => {
+        result.current.chooseSheets('report.xlsx', [0, 'Q2']);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+
+      // Both sheets come from one read of the workbook
+      expect(mockProcessSheets).toHaveBeenCalledTimes(1);
+      expect(mockProcessSheets.mock.calls[0]?.[1]).toEqual(['Q1', 'Q2']);
+      expect(mockService).not.toHaveBeenCalled();
+
+      expect(result.current.processedFiles.map(file => ({ name: file.name, sheet: file.sheet, data: file.data }))).toEqual([
+        { name: 'report.xlsx › Q1', sheet: 'Q1', data: [{ 'Full Name': 'From Q1' }] },
+        { name: 'report.xlsx › Q2', sheet: 'Q2', data: [{ 'Full Name': 'From Q2' }] }
+      ]);
+    });
+
+    it('should ignore unknown sheets and keep waiting when none are valid', async () => {
+      const onAnnounce = vi.fn();
+      const { result } = renderHook(() =>
+        useSpreadsheetMapper({
+          options: defaultOptions,
+          onFinish: mockOnFinish,
+          onAnnounce,
+          selectSheets: true
+        })
+      );
+
+      await act(async () => {
+        result.current.handleFiles([workbookFile()]);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+
+      act(() => {
+        result.current.chooseSheets('report.xlsx', ['Missing', 7]);
+      });
+
+      expect(mockProcessSheets).not.toHaveBeenCalled();
+      expect(result.current.fileProcessingStates[0]?.status).toBe('selectingSheets');
+      expect(onAnnounce).toHaveBeenCalledWith('Choose at least one sheet to import from report.xlsx', 'error');
+    });
+
+    it('should let a file waiting for a sheet choice be cancelled', async () => {
+      const { result } = renderHook(() =>
+        useSpreadsheetMapper({
+          options: defaultOptions,
+          onFinish: mockOnFinish,
+          selectSheets: true
+        })
+      );
+
+      await act(async () => {
+        result.current.handleFiles([workbookFile()]);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+
+      act(() => {
+        result.current.cancel('report.xlsx');
+      });
+
+      expect(result.current.fileProcessingStates[0]?.status).toBe('cancelled');
+    });
+  });
+  describe('header row selection', () => {
+    const reportFile = new File(['x'], 'report.csv', { type: 'text/csv' });
+    const bannerData: SpreadsheetData = {
+      name: 'report.csv',
+      columns: ['Sales export', ''],
+      data: [{ 'Sales export': 'Name', '': 'Email' }],
+      headerRow: 1,
+      rawRows: [['Sales export', ''], ['Name', 'Email'], ['John', 'john@example.com']]
+    };
+    const headerData: SpreadsheetData = {
+      name: 'report.csv',
+      columns: ['Name', 'Email'],
+      data: [{ Name: 'John', Email: 'john@example.com' }],
+      headerRow: 2
+    };
+
+    const renderWithFile = async (props: { autoMatch?: boolean; onAnnounce?: (message: string) => void } = {}) => {
+      const withHeaderRow = vi.fn((row: number | [number, number]) => {
+        if (typeof row === 'number' && row > 3) throw new Error('Header row is out of bounds');
+        return headerData;
+      });
+      mockService.mockResolvedValue({ ...bannerData, withHeaderRow });
+
+      const hook = renderHook(() =>
+        useSpreadsheetMapper({
+          options: defaultOptions,
+          onFinish: mockOnFinish,
+          ...props
+        })
+      );
+
+      await act(async () => {
+        hook.result.current.handleFiles([reportFile]);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+
+      return { ...hook, withHeaderRow };
+    };
+
+    it('should expose the raw rows above and below the header', async () => {
+      const { result } = await renderWithFile();
+
+      expect(result.current.processedFiles[0]?.rawRows).toEqual(bannerData.rawRows);
+    });
+
+    it('should replace the file\'s columns and data with those under the new header row', async () => {
+      const { result, withHeaderRow } = await renderWithFile();
+
+      await act(async () => {
+        await result.current.setHeaderRow('report.csv', 2);
+      });
+
+      expect(withHeaderRow).toHaveBeenCalledWith(2, undefined);
+      expect(mockService).toHaveBeenCalledTimes(1);
+      expect(result.current.processedFiles).toHaveLength(1);
+      expect(result.current.processedFiles[0]?.columns).toEqual(['Name', 'Email']);
+      expect(result.current.processedFiles[0]?.data).toEqual([{ Name: 'John', Email: 'john@example.com' }]);
+      expect(result.current.fileProcessingStates[0]?.data?.headerRow).toBe(2);
+    });
+
+    it('should accept a header over several rows', async () => {
+      const onAnnounce = vi.fn();
+      const { result, withHeaderRow } = await renderWithFile({ onAnnounce });
+
+      await act(async () => {
+        await result.current.setHeaderRow('report.csv', [1, 2]);
+      });
+
+      expect(withHeaderRow).toHaveBeenCalledWith([1, 2], undefined);
+      expect(onAnnounce).toHaveBeenCalledWith('Columns of report.csv are now read from rows 1-2', 'info');
+    });
+
+    it('should drop mappings to columns that are gone and match the new ones', async () => {
+      const { result } = await renderWithFile({ autoMatch: true });
+
+      act(() => {
+        result.current.updateOrCreate({ field: 'Sales export', value: 'name', fileName: 'report.csv' });
+      });
+
+      await act(async () => {
+        await result.current.setHeaderRow('report.csv', 2);
+      });
+
+      expect(result.current.map.map(({ field, value }) => ({ field, value }))).toEqual([
+        { field: 'Name', value: 'name' },
+        { field: 'Email', value: 'email' }
+      ]);
+    });
+
+    it('should keep the file as it was when the row cannot be used', async () => {
+      const onAnnounce = vi.fn();
+      const { result } = await renderWithFile({ onAnnounce });
+
+      await act(async () => {
+        await result.current.setHeaderRow('report.csv', 9);
+      });
+
+      expect(result.current.processedFiles[0]?.columns).toEqual(['Sales export', '']);
+      expect(onAnnounce).toHaveBeenCalledWith(
+        'Cannot use row 9 as the header of report.csv: Header row is out of bounds',
+        'error'
+      );
+    });
+  });
 });
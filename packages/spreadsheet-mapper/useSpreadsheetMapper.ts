@@ -1,22 +1,50 @@
-import { useState, useCallback, useRef } from 'react';
-import SpreadSheetService from './SpreadsheetService';
-import type { SpreadsheetData, SpreadsheetConfig, MappedField, MappingError, MappingOption, PerformanceMetrics } from './types';
+import { useState, useCallback, useRef, useMemo } from 'react';
+import SpreadSheetService, { inspectWorkbook, processSheets } from './SpreadsheetService';
+import { isUnconfirmedSuggestion, suggestMappings } from './columnMatching';
+import { processMappedRows } from './mappedRows';
+import { transformRows } from './transforms';
+import { buildRecords, findPathConflicts } from './records';
+import { combineColumns, findSharedColumns, getMappedColumns, getSourceColumns, separateSharedColumns } from './combinedColumns';
+import { checkDuplicates } from './duplicates';
+import { countDistinctValues } from './valueMapping';
+import { createAsyncValidationCache, hasAsyncValidators, runAsyncValidators } from './asyncValidation';
+import { isBlockingError } from './validation';
+import { createHeaderFingerprint, createMappingTemplate, applyMappingTemplate } from './mappingTemplates';
+import type { SpreadsheetData, SpreadsheetConfig, MappedField, MappingError, MappingOption, PerformanceMetrics, ProcessingProgress, AutoMatchConfig, MappingTemplate, TemplateStore, RowValidator, DuplicatePolicy, AsyncValidationConfig, MappedResult, OutputMode, MappedData, DistinctValue, WorkbookInfo, HeaderRowRange } from './types';
 
 /**
  * Props for the useSpreadsheetMapper hook.
  * @interface UseSpreadsheetMapperProps
- * @property {MappingOption[]} options - An array of target options for mapping.
- * @property {(data: SpreadsheetData & { map: { field: string; value: string }[] }) => void} onFinish - Callback function to be called when the mapping process is finished.
+ * @template TRecord - Shape of a finished record; option values are checked against its keys.
+ * @template TOutput - The `output` mode; 'records' makes `records` required in the onFinish payload.
+ * @property {MappingOption<TRecord>[]} options - An array of target options for mapping.
+ * @property {(data: MappedResult<TRecord, TOutput>) => void} onFinish - Callback function to be called when the mapping process is finished, with any outstanding non-blocking issues.
  * @property {SpreadsheetConfig} [config] - Optional configuration for spreadsheet processing.
  * @property {string} [clientId] - Optional client identifier for rate limiting (defaults to 'default').
  * @property {(message: string, type?: 'success' | 'error' | 'info') => void} [onAnnounce] - Optional callback for screen reader announcements.
+ * @property {boolean | AutoMatchConfig} [autoMatch] - Propose unsaved mappings for each loaded file by matching columns to options.
+ * @property {TemplateStore} [templateStore] - Optional store for mapping templates, re-applied to files with matching headers.
+ * @property {RowValidator[]} [rowValidators] - Cross-field rules run against each mapped record before finishing.
+ * @property {DuplicatePolicy} [duplicatePolicy] - How rows repeating a `unique` option's value across processed files are handled (defaults to 'error').
+ * @property {AsyncValidationConfig} [asyncValidation] - Batch size and concurrency limit for `validateAsync` checks.
+ * @property {TOutput} [output] - Set to 'records' to also receive target-shaped `records` in onFinish (defaults to 'rows').
+ * @property {boolean} [allowColumnReuse] - Let one column fill several options, each processing its own copy (defaults to false, which blocks finishing).
+ * @property {boolean} [selectSheets] - Pause workbooks with several sheets in a 'selectingSheets' state until `chooseSheets` is called (defaults to false).
  */
-interface UseSpreadsheetMapperProps {
-  options: MappingOption[];
-  onFinish: (data: SpreadsheetData & { map: { field: string; value: string }[] }) => void;
+interface UseSpreadsheetMapperProps<TRecord extends object = MappedData, TOutput extends OutputMode = OutputMode> {
+  options: MappingOption<TRecord>[];
+  onFinish: (data: MappedResult<TRecord, TOutput>) => void;
   config?: SpreadsheetConfig;
   clientId?: string;
   onAnnounce?: (message: string, type?: 'success' | 'error' | 'info') => void;
+  autoMatch?: boolean | AutoMatchConfig;
+  templateStore?: TemplateStore;
+  rowValidators?: RowValidator[];
+  duplicatePolicy?: DuplicatePolicy;
+  asyncValidation?: AsyncValidationConfig;
+  output?: TOutput;
+  allowColumnReuse?: boolean;
+  selectSheets?: boolean;
 }
 
 /**
@@ -24,28 +52,61 @@ interface UseSpreadsheetMapperProps {
  */
 interface FileProcessingState {
   file: File;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'processing' | 'selectingSheets' | 'completed' | 'error' | 'cancelled';
   error?: string;
   data?: SpreadsheetData;
+  /** Sheets to choose from while `status` is 'selectingSheets' */
+  workbook?: WorkbookInfo;
+  /** Latest progress: bytes while the file is read, then rows while finishing shapes every row */
+  progress?: ProcessingProgress;
 }
 
 /**
  * A headless React hook for mapping spreadsheet data with enhanced security, performance, and accessibility features.
  * Provides state and functions for file processing, field mapping, and error handling.
  * @function useSpreadsheetMapper
- * @param {UseSpreadsheetMapperProps} { options, onFinish, config, clientId, onAnnounce } - Props for the hook.
+ * @template TRecord - Shape of a finished record, e.g. `useSpreadsheetMapper<Contact>({ ... })`.
+ * @template TOutput - Inferred from `output`; pass it with an explicit record type, e.g. `useSpreadsheetMapper<Contact, 'records'>`.
+ * @param {UseSpreadsheetMapperProps} { options, onFinish, config, clientId, onAnnounce, autoMatch, templateStore, rowValidators, duplicatePolicy, asyncValidation, output, allowColumnReuse, selectSheets } - Props for the hook.
  * @returns Enhanced return object with performance metrics and accessibility features
  */
-const useSpreadsheetMapper = ({ options, onFinish, config, clientId = 'default', onAnnounce }: UseSpreadsheetMapperProps) => {
+const useSpreadsheetMapper = <TRecord extends object = MappedData, TOutput extends OutputMode = OutputMode>({
+  options,
+  onFinish,
+  config,
+  clientId = 'default',
+  onAnnounce,
+  autoMatch = false,
+  templateStore,
+  rowValidators,
+  duplicatePolicy = 'error',
+  asyncValidation,
+  output,
+  allowColumnReuse = false,
+  selectSheets = false
+}: UseSpreadsheetMapperProps<TRecord, TOutput>) => {
   const [map, setMap] = useState<MappedField[]>([]);
   const [errors, setErrors] = useState<MappingError[]>([]);
   const [processedFiles, setProcessedFiles] = useState<SpreadsheetData[]>([]);
   const [fileProcessingStates, setFileProcessingStates] = useState<FileProcessingState[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [performanceMetrics, setPerformanceMetrics] = useState<PerformanceMetrics[]>([]);
+  const [validating, setValidating] = useState(false);
   
   // Use ref to track active processing count for rate limiting
   const activeProcessingCount = useRef(0);
+  // One AbortController per file in the current batch, indexed like fileProcessingStates
+  const abortControllers = useRef<AbortController[]>([]);
+  // validateAsync results are kept between finishes so each value is only looked up once
+  const asyncValidationCache = useRef(createAsyncValidationCache());
+  // Incremented per async validation run; results from superseded runs are ignored
+  const validationRun = useRef(0);
+  // Rows read for getDistinctValues and the values counted per mapping, keyed by the file's row source
+  // (getAllRows), which preview copies of a file share, so listing values while rendering reads the rows once
+  const distinctValueCache = useRef(new WeakMap<object, {
+    rows: Record<string, unknown>[];
+    counts: WeakMap<MappedField, { option: MappingOption<TRecord>; values: DistinctValue[] }>;
+  }>());
   const maxConcurrentFiles = config?.performance?.maxConcurrentFiles ?? 3;
 
   /**
@@ -108,6 +169,58 @@ const useSpreadsheetMapper = ({ options, onFinish, config, clientId = 'default',
     }
   }, [map, announce]);
 
+  /**
+   * Lists the distinct values of the column mapped to an option across every row of a file, with counts,
+   * e.g. to let users map categorical source values to the option's allowed values.
+   * @param {SpreadsheetData} file - A processed file.
+   * @param {string} value - The option value.
+   * @returns {DistinctValue[]} Values, most frequent first; an empty list when the option isn't mapped for the file.
+   */
+  const getDistinctValues = useCallback((file: SpreadsheetData, value: string): DistinctValue[] => {
+    const fileMap = map.filter((item) => !item.fileName || item.fileName === file.name);
+    const index = fileMap.findIndex(item => item.value === value);
+    const source = fileMap[index];
+    const mapping = separateSharedColumns(fileMap)[index];
+    const option = options.find(item => item.value === value);
+    if (!source || !mapping || !option) return [];
+
+    const rowSource = file.getAllRows ?? file.data;
+    let cached = distinctValueCache.current.get(rowSource);
+    if (!cached) {
+      // This may run while rendering, where reported progress would update state and render again
+      cached = { rows: file.getAllRows ? file.getAllRows({ reportProgress: false }) : file.data, counts: new WeakMap() };
+      distinctValueCache.current.set(rowSource, cached);
+    }
+    // Mappings are replaced rather than changed, so a cached count is current while its mapping and option are
+    const counted = cached.counts.get(source);
+    if (counted && counted.option === option) return counted.values;
+    const values = countDistinctValues(combineColumns(cached.rows, [mapping]), mapping, option);
+    cached.counts.set(source, { option, values });
+    return values;
+  }, [map, options]);
+
+  /**
+   * Maps one source value of an option's column to an allowed target value, stored in the mapping's `values`.
+   * @param {string} value - The option value.
+   * @param {string} source - The source value, as listed by getDistinctValues.
+   * @param {string | number | boolean | undefined} target - The allowed value to use; undefined removes the entry.
+   * @param {string} fileName - Optional file name for per-file mapping.
+   */
+  const setValueMapping = useCallback((
+    value: string,
+    source: string,
+    target: string | number | boolean | undefined,
+    fileName?: string
+  ) => {
+    setMap(prevState => prevState.map((item) => {
+      if (item.value !== value || (fileName && item.fileName && item.fileName !== fileName)) return item;
+      const { [source]: _previous, ...rest } = item.values ?? {};
+      const values = target === undefined ? rest : { ...rest, [source]: target };
+      return { ...item, values };
+    }));
+    announce(target === undefined ? `Value ${source} unmapped` : `Value ${source} mapped to ${String(target)}`, 'info');
+  }, [announce]);
+
   /**
    * Finalizes the mapping process and checks for any required fields that are not mapped.
    */
@@ -116,11 +229,12 @@ const useSpreadsheetMapper = ({ options, onFinish, config, clientId = 'default',
     const validationErrors: MappingError[] = [];
     
     options.forEach((option) => {
-      if (option.required && !map.find((item) => item.value === option.value)) {
+      if (option.required && !map.find((item) => item.value === option.value && !isUnconfirmedSuggestion(item))) {
         validationErrors.push({ 
           option, 
           message: `${option.label} is required`,
-          type: 'validation'
+          type: 'validation',
+          severity: 'error'
         });
       }
     });
@@ -135,9 +249,49 @@ const useSpreadsheetMapper = ({ options, onFinish, config, clientId = 'default',
   }, [map, options, announce]);
 
   /**
-   * Processes a single file with concurrency control
+   * Looks up a saved template for a file's headers; a failing store must not fail the file
+   */
+  const loadTemplate = useCallback(async (columns: string[]): Promise<MappingTemplate | undefined> => {
+    if (!templateStore) return undefined;
+    try {
+      return await templateStore.load(createHeaderFingerprint(columns));
+    } catch (error) {
+      console.warn('Failed to load mapping template:', error);
+      return undefined;
+    }
+  }, [templateStore]);
+
+  /**
+   * Re-applies a saved template first, then proposes mappings for whatever is still unmapped
+   */
+  const proposeMappings = useCallback((data: SpreadsheetData, template?: MappingTemplate) => {
+    if (template || autoMatch) {
+      const threshold = typeof autoMatch === 'object' ? autoMatch.threshold : undefined;
+      setMap(prev => {
+        const templated = template ? applyMappingTemplate(prev, template, data.name, data.columns) : prev;
+        if (!autoMatch) return templated;
+
+        const fileMappings = templated.filter(item => !item.fileName || item.fileName === data.name);
+        const unmappedOptions = options.filter(option => !fileMappings.some(item => item.value === option.value));
+        const mappedColumns = getMappedColumns(fileMappings);
+        const unusedColumns = data.columns.filter(column => !mappedColumns.includes(column));
+        const suggestions = suggestMappings(unusedColumns, unmappedOptions, threshold)
+          .map(suggestion => ({ ...suggestion, fileName: data.name }));
+        return suggestions.length > 0 ? [...templated, ...suggestions] : templated;
+      });
+    }
+
+    if (template) {
+      announce(`Mapping template "${template.name}" applied to ${data.name}`, 'info');
+    }
+  }, [autoMatch, options, announce]);
+
+  /**
+   * Processes a single file with concurrency control.
+   * With `sheets`, reads each named sheet into its own SpreadsheetData; otherwise reads the configured sheet,
+   * first pausing for a sheet choice when `selectSheets` is on and the workbook has several.
    */
-  const processSingleFile = useCallback(async (file: File, fileIndex: number) => {
+  const processSingleFile = useCallback(async (file: File, fileIndex: number, signal: AbortSignal, sheets?: string[]) => {
     try {
       // Update state to processing
       setFileProcessingStates(prev => 
@@ -146,25 +300,80 @@ const useSpreadsheetMapper = ({ options, onFinish, config, clientId = 'default',
         )
       );
       
-      const data = await SpreadSheetService(file, config, clientId);
+      // Route progress into this file's state as well as any caller-supplied callback
+      const fileConfig: SpreadsheetConfig = {
+        ...config,
+        performance: {
+          ...config?.performance,
+          onProgress: (progress) => {
+            config?.performance?.onProgress?.(progress);
+            if (signal.aborted) return;
+            setFileProcessingStates(prev =>
+              prev.map((state, index) =>
+                index === fileIndex ? { ...state, progress } : state
+              )
+            );
+          }
+        }
+      };
       
+      if (!sheets && selectSheets) {
+        const workbook = await inspectWorkbook(file, fileConfig, signal);
+        if (signal.aborted) return;
+        if (workbook.sheets.length > 1) {
+          setFileProcessingStates(prev =>
+            prev.map((state, index) =>
+              index === fileIndex ? { ...state, status: 'selectingSheets', workbook } : state
+            )
+          );
+          announce(`Choose the sheets to import from ${file.name}`, 'info');
+          return;
+        }
+      }
+
+      // Chosen sheets come from one read of the workbook. Several sheets of one file are told apart by name, e.g. "report.xlsx › Q1"
+      const results: SpreadsheetData[] = sheets
+        ? (await processSheets(file, sheets, fileConfig, clientId, signal)).map((sheetData, index) => ({
+          ...sheetData,
+          name: sheets.length > 1 ? `${file.name} › ${sheets[index]}` : file.name,
+          sheet: sheets[index]
+        }))
+        : [await SpreadSheetService(file, fileConfig, clientId, signal)];
+
+      for (const data of results) {
+        const template = await loadTemplate(data.columns);
+
+        // Discard late results for files that were cancelled or reset
+        if (signal.aborted) return;
+
+        setProcessedFiles(prev => [...prev, data]);
+
+        // File-level warnings (e.g. large files) join the same channel as validation issues
+        if (data.warnings && data.warnings.length > 0) {
+          const { warnings } = data;
+          setErrors(prev => [...prev, ...warnings]);
+        }
+
+        proposeMappings(data, template);
+
+        // Store performance metrics if available
+        if (data.metrics) {
+          setPerformanceMetrics(prev => [...prev, data.metrics!]);
+        }
+      }
+
       // Update state to completed
       setFileProcessingStates(prev => 
         prev.map((state, index) => 
-          index === fileIndex ? { ...state, status: 'completed', data } : state
+          index === fileIndex ? { ...state, status: 'completed', data: results[0] } : state
         )
       );
       
-      setProcessedFiles(prev => [...prev, data]);
-      
-      // Store performance metrics if available
-      if (data.metrics) {
-        setPerformanceMetrics(prev => [...prev, data.metrics!]);
-      }
-      
       announce(`File processed successfully: ${file.name}`, 'success');
       
     } catch (error) {
+      if (signal.aborted) return;
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       
       // Update state to error
@@ -179,12 +388,13 @@ const useSpreadsheetMapper = ({ options, onFinish, config, clientId = 'default',
       setErrors(prev => [...prev, {
         option: { label: file.name, value: file.name },
         message: `File processing failed: ${errorMessage}`,
-        type: 'security'
+        type: 'security',
+        severity: 'error'
       }]);
     } finally {
       activeProcessingCount.current--;
     }
-  }, [config, clientId, announce]);
+  }, [config, clientId, announce, selectSheets, loadTemplate, proposeMappings]);
 
   /**
    * Processes the selected files using the SpreadsheetService with concurrency control.
@@ -193,6 +403,11 @@ const useSpreadsheetMapper = ({ options, onFinish, config, clientId = 'default',
   const handleFiles = useCallback((files: File[]) => {
     if (files.length === 0) return;
     
+    // Abandon any batch still in flight before starting a new one
+    abortControllers.current.forEach(controller => controller.abort());
+    const controllers = files.map(() => new AbortController());
+    abortControllers.current = controllers;
+    
     setProcessedFiles([]);
     setErrors([]);
     setPerformanceMetrics([]);
@@ -213,19 +428,26 @@ const useSpreadsheetMapper = ({ options, onFinish, config, clientId = 'default',
       
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
-        if (!file) continue; // Skip if file is undefined
+        const controller = controllers[i];
+        if (!file || !controller) continue; // Skip if file is undefined
         
         // Wait if we've reached the concurrent file limit
         while (activeProcessingCount.current >= maxConcurrentFiles) {
           await new Promise(resolve => setTimeout(resolve, 100));
         }
         
+        // Skip files cancelled while queued
+        if (controller.signal.aborted) continue;
+        
         activeProcessingCount.current++;
-        promises.push(processSingleFile(file, i));
+        promises.push(processSingleFile(file, i, controller.signal));
       }
       
       // Wait for all files to complete
       await Promise.allSettled(promises);
+      
+      // A newer batch or reset has taken over; leave its state alone
+      if (abortControllers.current !== controllers) return;
       setIsProcessing(false);
       
       // Final announcement
@@ -242,11 +464,116 @@ const useSpreadsheetMapper = ({ options, onFinish, config, clientId = 'default',
     processQueue();
   }, [maxConcurrentFiles, processSingleFile, announce]);
 
+  /**
+   * Cancels pending and in-flight processing. Late results for cancelled files are discarded.
+   * @param {string} fileName - Optional file name; cancels every unfinished file when omitted.
+   */
+  const cancel = useCallback((fileName?: string) => {
+    const cancelledIndexes: number[] = [];
+    fileProcessingStates.forEach((state, index) => {
+      const matches = !fileName || state.file.name === fileName;
+      const unfinished = state.status === 'pending' || state.status === 'processing' || state.status === 'selectingSheets';
+      if (matches && unfinished) {
+        abortControllers.current[index]?.abort();
+        cancelledIndexes.push(index);
+      }
+    });
+
+    if (cancelledIndexes.length === 0) return;
+
+    setFileProcessingStates(prev =>
+      prev.map((state, index) =>
+        cancelledIndexes.includes(index) ? { ...state, status: 'cancelled' } : state
+      )
+    );
+    
+    // Nothing left to wait for once every file has been cancelled or has settled
+    const remaining = fileProcessingStates.filter((state, index) =>
+      !cancelledIndexes.includes(index) && (state.status === 'pending' || state.status === 'processing')
+    );
+    if (remaining.length === 0) {
+      setIsProcessing(false);
+    }
+    
+    announce(`Cancelled processing of ${fileName ?? `${cancelledIndexes.length} file${cancelledIndexes.length > 1 ? 's' : ''}`}`, 'info');
+  }, [fileProcessingStates, announce]);
+
+  /**
+   * Continues a file paused in the 'selectingSheets' state, reading each chosen sheet into its own SpreadsheetData.
+   * @param {string} fileName - The file waiting for a sheet choice.
+   * @param {(string | number)[]} sheets - Sheet names, or zero-based indexes into the workbook's sheets.
+   */
+  const chooseSheets = useCallback((fileName: string, sheets: (string | number)[]) => {
+    const fileIndex = fileProcessingStates.findIndex(state => state.file.name === fileName && state.status === 'selectingSheets');
+    const state = fileProcessingStates[fileIndex];
+    if (!state?.workbook) return;
+
+    const { workbook } = state;
+    const names = sheets
+      .map(sheet => (typeof sheet === 'number' ? workbook.sheets[sheet]?.name : sheet))
+      .filter((name): name is string => name !== undefined && workbook.sheets.some(summary => summary.name === name));
+    if (names.length === 0) {
+      announce(`Choose at least one sheet to import from ${fileName}`, 'error');
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllers.current[fileIndex] = controller;
+    activeProcessingCount.current++;
+    setIsProcessing(true);
+
+    processSingleFile(state.file, fileIndex, controller.signal, Array.from(new Set(names))).then(() => {
+      // Other files may still be in flight from the batch that paused this one
+      if (abortControllers.current[fileIndex] === controller && activeProcessingCount.current === 0) {
+        setIsProcessing(false);
+      }
+    });
+  }, [fileProcessingStates, processSingleFile, announce]);
+
+  /**
+   * Reads a processed file's columns and rows again from another header row, reusing the sheet cached when it was read.
+   * The file's mappings to columns that no longer exist are dropped, then templates and `autoMatch` run against the new columns.
+   * @param {string} fileName - Name of the processed file.
+   * @param {number | HeaderRowRange} headerRow - Row holding the column names (1-based, so `rawRows[headerRow - 1]`), or first and last rows of a header over several rows.
+   * @param {number} [dataStartRow] - First data row (1-based); defaults to the row after the header.
+   */
+  const setHeaderRow = useCallback(async (fileName: string, headerRow: number | HeaderRowRange, dataStartRow?: number): Promise<void> => {
+    const file = processedFiles.find(item => item.name === fileName);
+    if (!file?.withHeaderRow) return;
+
+    const rows = typeof headerRow === 'number' ? `row ${headerRow}` : `rows ${headerRow[0]}-${headerRow[1]}`;
+    let data: SpreadsheetData;
+    try {
+      // Keep the name and sheet given when the file was processed, e.g. "report.xlsx › Q1"
+      data = {
+        ...file.withHeaderRow(headerRow, dataStartRow),
+        name: file.name,
+        ...(file.sheet !== undefined && { sheet: file.sheet })
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      announce(`Cannot use ${rows} as the header of ${fileName}: ${errorMessage}`, 'error');
+      return;
+    }
+
+    setProcessedFiles(prev => prev.map(item => (item.name === fileName ? data : item)));
+    setFileProcessingStates(prev => prev.map(state => (state.data?.name === fileName ? { ...state, data } : state)));
+    setMap(prev => prev.filter(item =>
+      (item.fileName && item.fileName !== fileName) || getSourceColumns(item).every(column => data.columns.includes(column))
+    ));
+    announce(`Columns of ${fileName} are now read from ${rows}`, 'info');
+
+    proposeMappings(data, await loadTemplate(data.columns));
+  }, [processedFiles, announce, loadTemplate, proposeMappings]);
+
   /**
    * Handles the completion of a single file's mapping process.
+   * The `onFinish` payload carries every data row, not just the preview, with mapped values coerced and validated.
    * @param {SpreadsheetData} data - The processed data for the file.
+   * @returns {Promise<void> | void} A promise settling once every row is shaped and any `validateAsync` checks are done,
+   * when the file shapes its rows in batches or a mapped option has such checks.
    */
-  const handleFileFinish = useCallback((data: SpreadsheetData) => {
+  const handleFileFinish = useCallback((data: SpreadsheetData): Promise<void> | void => {
     // First validate required fields
     setErrors([]);
     const validationErrors: MappingError[] = [];
@@ -262,7 +589,8 @@ const useSpreadsheetMapper = ({ options, onFinish, config, clientId = 'default',
           validationErrors.push({ 
             option, 
             message: `${option.label} is required and must be saved`,
-            type: 'validation'
+            type: 'validation',
+            severity: 'error'
           });
         }
       }
@@ -276,32 +604,182 @@ const useSpreadsheetMapper = ({ options, onFinish, config, clientId = 'default',
     }
     
     // If no validation errors, proceed with finishing
-    // For backward compatibility: if no fileName is specified in mappings, include all mappings
-    const result = map
-      .filter((item) => !item.fileName || item.fileName === data.name)
-      .map(({ field, value }) => ({
-        field,
-        value,
-      }));
+    // For backward compatibility: if no fileName is specified in mappings, include all mappings.
+    // Suggestions the user never saved are left out.
+    const fileMappings = map.filter((item) =>
+      (!item.fileName || item.fileName === data.name) && !isUnconfirmedSuggestion(item)
+    );
+    const result = fileMappings.map(({ field, value, fields, separator, template, split, part, values }) => ({
+      field,
+      value,
+      ...(fields && { fields }),
+      ...(separator !== undefined && { separator }),
+      ...(template !== undefined && { template }),
+      ...(split && { split }),
+      ...(part !== undefined && { part }),
+      ...(values && { values })
+    }));
     
-    announce('Mapping completed successfully', 'success');
-    onFinish({ ...data, map: result });
-  }, [map, onFinish, options, announce]);
+    // A column may only fill several options when reuse is allowed
+    const sharedColumns = findSharedColumns(fileMappings);
+    if (!allowColumnReuse && sharedColumns.length > 0) {
+      const labelOf = (value: string) => options.find(option => option.value === value)?.label ?? value;
+      setErrors(sharedColumns.map(({ column, mappings }) => {
+        const [, second] = mappings;
+        return {
+          option: options.find(option => option.value === second?.value) ?? { label: column, value: second?.value ?? column },
+          message: `${column} is mapped to ${mappings.map(mapping => labelOf(mapping.value)).join(' and ')}, but a column can only fill one option`,
+          type: 'validation' as const,
+          severity: 'error' as const,
+          column
+        };
+      }));
+      announce(`Cannot finish: ${sharedColumns.length} columns are mapped to more than one option`, 'error');
+      return;
+    }
+
+    // Each extra option on a shared column reads its own copy, so its transforms and type don't affect the others
+    const readMappings = separateSharedColumns(fileMappings);
+
+    // Hand the full dataset to onFinish; processed files only carry preview rows.
+    // Combined and split mappings become columns of their own so every later step reads them like a single column.
+    const finishWithRows = (fullRows: Record<string, unknown>[]): Promise<void> | void => {
+      const allRows = combineColumns(fullRows, readMappings);
+
+      // Unique values are checked against every processed file, not just this one
+      let duplicateErrors: MappingError[] = [];
+      let droppedRows: number[] = [];
+      if (options.some(option => option.unique)) {
+        const files = processedFiles.some(file => file.name === data.name)
+          ? processedFiles.map(file => (file.name === data.name ? data : file))
+          : [...processedFiles, data];
+        const sources = files.map((file) => {
+          const sourceMap = separateSharedColumns(map.filter((item) =>
+            (!item.fileName || item.fileName === file.name) && !isUnconfirmedSuggestion(item)
+          ));
+          return {
+            fileName: file.name,
+            rows: file === data ? allRows : combineColumns(file.getAllRows ? file.getAllRows() : file.data, sourceMap),
+            map: sourceMap
+          };
+        });
+        ({ errors: duplicateErrors, droppedRows } = checkDuplicates(sources, data.name, options, duplicatePolicy));
+      }
+      const dropped = new Set(droppedRows);
+
+      // Coerce and validate mapped values and rows; any failing cell or row blocks finishing.
+      // Rows dropped as duplicates are left out, so a discarded copy can't block the import.
+      const { rows, errors: cellErrors } = processMappedRows(allRows, readMappings, options, rowValidators, dropped);
+
+      // Overlapping target paths would overwrite each other in the records
+      const pathErrors = output === 'records' ? findPathConflicts(options) : [];
+
+      // Only 'error' severity blocks; warnings and info travel with the result
+      const issues = [...pathErrors, ...cellErrors, ...duplicateErrors, ...(data.warnings ?? [])];
+      const blockingErrors = issues.filter(isBlockingError);
+      if (blockingErrors.length > 0) {
+        setErrors(issues);
+        announce(`Cannot finish: ${blockingErrors.length} values failed validation`, 'error');
+        return;
+      }
+
+      const finishRows = (warnings: MappingError[]) => {
+        if (warnings.length > 0) {
+          setErrors(warnings);
+          announce(`Finishing with ${warnings.length} warning${warnings.length > 1 ? 's' : ''}`, 'info');
+        }
+
+        const finishedRows = dropped.size > 0 ? rows.filter((_, rowIndex) => !dropped.has(rowIndex)) : rows;
+
+        announce('Mapping completed successfully', 'success');
+        const finished: MappedResult<TRecord> = {
+          ...data,
+          data: finishedRows,
+          map: result,
+          warnings,
+          ...(output === 'records' && { records: buildRecords(finishedRows, readMappings, options) })
+        };
+        // `records` is set exactly when output is 'records', which is what the TOutput payload type requires
+        onFinish(finished as MappedResult<TRecord, TOutput>);
+      };
+
+      if (!hasAsyncValidators(readMappings, options)) {
+        finishRows(issues);
+        return;
+      }
+
+      // External lookups run last, once every local check has passed
+      const run = ++validationRun.current;
+      setValidating(true);
+      announce('Validating values...', 'info');
+      return runAsyncValidators(rows, allRows, readMappings, options, asyncValidationCache.current, asyncValidation, dropped)
+        .then((asyncErrors) => {
+          if (run !== validationRun.current) return;
+          const asyncBlocking = asyncErrors.filter(isBlockingError);
+          if (asyncBlocking.length > 0) {
+            setErrors([...asyncErrors, ...issues]);
+            announce(`Cannot finish: ${asyncBlocking.length} values failed validation`, 'error');
+            return;
+          }
+          finishRows([...issues, ...asyncErrors]);
+        })
+        .finally(() => {
+          if (run === validationRun.current) setValidating(false);
+        });
+    };
+
+    // Rows shaped a batch at a time report their progress on the file while a large sheet is prepared
+    return data.loadAllRows
+      ? data.loadAllRows().then(finishWithRows)
+      : finishWithRows(data.getAllRows ? data.getAllRows() : data.data);
+  }, [map, onFinish, options, rowValidators, duplicatePolicy, asyncValidation, output, allowColumnReuse, processedFiles, announce]);
+
+  /**
+   * Saves the current mappings for a processed file as a named template in the template store.
+   * @param {string} name - Display name for the template.
+   * @param {string} [fileName] - File whose mappings and headers to save; defaults to the first processed file.
+   * @returns {Promise<MappingTemplate | undefined>} The saved template, or undefined if there was nothing to save.
+   */
+  const saveTemplate = useCallback(async (name: string, fileName?: string) => {
+    const file = fileName ? processedFiles.find(item => item.name === fileName) : processedFiles[0];
+    if (!templateStore || !file) return undefined;
+
+    // Unconfirmed suggestions would come back as plain mappings and be imported next time
+    const fileMappings = map.filter(item => (!item.fileName || item.fileName === file.name) && !isUnconfirmedSuggestion(item));
+    const template = createMappingTemplate(name, file.columns, fileMappings);
+    await templateStore.save(template);
+    announce(`Mapping template "${name}" saved`, 'success');
+    return template;
+  }, [templateStore, processedFiles, map, announce]);
 
   /**
    * Resets all state to initial values
    */
   const reset = useCallback(() => {
+    // Stop in-flight work so it cannot write into the cleared state
+    abortControllers.current.forEach(controller => controller.abort());
+    abortControllers.current = [];
     setMap([]);
     setErrors([]);
     setProcessedFiles([]);
     setFileProcessingStates([]);
     setPerformanceMetrics([]);
     setIsProcessing(false);
-    activeProcessingCount.current = 0;
+    // Drop pending validateAsync results and forget cached lookups
+    validationRun.current++;
+    asyncValidationCache.current = createAsyncValidationCache();
+    setValidating(false);
     announce('All data has been reset', 'info');
   }, [announce]);
 
+  // Preview rows show each option's transform steps under the file's current mappings.
+  // getAllRows keeps returning the rows as read, so finishing never transforms a value twice.
+  const previewFiles = useMemo(() => processedFiles.map((file) => {
+    const fileMappings = separateSharedColumns(map.filter((item) => !item.fileName || item.fileName === file.name));
+    const data = transformRows(combineColumns(file.data, fileMappings), fileMappings, options);
+    return data === file.data ? file : { ...file, data, getAllRows: file.getAllRows ?? (() => file.data) };
+  }), [processedFiles, map, options]);
+
   /**
    * Gets performance summary for all processed files
    */
@@ -326,15 +804,22 @@ const useSpreadsheetMapper = ({ options, onFinish, config, clientId = 'default',
   return {
     map,
     errors,
-    processedFiles,
+    processedFiles: previewFiles,
     fileProcessingStates,
     isProcessing,
+    validating,
     performanceMetrics,
     updateOrCreate,
     save,
+    getDistinctValues,
+    setValueMapping,
     finish,
     handleFiles,
     handleFileFinish,
+    cancel,
+    chooseSheets,
+    setHeaderRow,
+    saveTemplate,
     reset,
     getPerformanceSummary,
     // Accessibility helpers
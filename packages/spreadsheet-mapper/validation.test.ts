@@ -0,0 +1,36 @@
+import { validateValue } from './validation';
+import { describe, it, expect } from 'vitest';
+
+describe('validateValue', () => {
+  const row = { Name: 'John' };
+
+  it('should check patterns against the cell text', () => {
+    expect(validateValue('AB-123', { pattern: /^[A-Z]{2}-\d+$/ }, row)).toBeUndefined();
+    expect(validateValue('123', { pattern: /^[A-Z]{2}-\d+$/g }, row)).toBe("'123' does not match the expected format");
+  });
+
+  it('should check numeric and date ranges', () => {
+    expect(validateValue(5, { min: 1, max: 10 }, row)).toBeUndefined();
+    expect(validateValue(0, { min: 1 }, row)).toBe("'0' is less than the minimum of 1");
+    expect(validateValue(11, { max: 10 }, row)).toBe("'11' is greater than the maximum of 10");
+    expect(validateValue(new Date('1899-01-01'), { min: new Date('1900-01-01') }, row))
+      .toBe("'1899-01-01T00:00:00.000Z' is less than the minimum of 1900-01-01T00:00:00.000Z");
+  });
+
+  it('should check text length', () => {
+    expect(validateValue('ab', { minLength: 3 }, row)).toBe("'ab' is shorter than 3 characters");
+    expect(validateValue('abcd', { maxLength: 3 }, row)).toBe("'abcd' is longer than 3 characters");
+  });
+
+  it('should run custom validators with the whole row', () => {
+    const validate = (value: unknown, source: Record<string, unknown>) =>
+      value === source['Name'] ? 'must differ from Name' : undefined;
+
+    expect(validateValue('John', { validate }, row)).toBe('must differ from Name');
+    expect(validateValue('Jane', { validate }, row)).toBeUndefined();
+  });
+
+  it('should use the custom message for built-in rules', () => {
+    expect(validateValue('x', { minLength: 2, message: 'Too short' }, row)).toBe('Too short');
+  });
+});
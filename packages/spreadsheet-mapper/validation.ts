@@ -0,0 +1,80 @@
+import type { FieldValidation, MappingError, RowIssue, RowValidationContext, RowValidator } from './types';
+
+/**
+ * Converts numbers and dates to a comparable number for min/max rules
+ */
+const toComparable = (value: unknown): number | undefined => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  return undefined;
+};
+
+/**
+ * Runs an option's validation rules against a single (already coerced) cell value.
+ * Rules are checked in order: pattern, min/max, minLength/maxLength, custom.
+ * @returns {string | undefined} The first failure message, or undefined when the value is valid.
+ */
+export const validateValue = (
+  value: unknown,
+  validation: FieldValidation,
+  row: Record<string, unknown>
+): string | undefined => {
+  const { pattern, min, max, minLength, maxLength, validate, message } = validation;
+  const text = value instanceof Date ? value.toISOString() : String(value);
+
+  if (pattern) {
+    pattern.lastIndex = 0; // Global regexes keep state between test() calls
+    if (!pattern.test(text)) {
+      return message ?? `'${text}' does not match the expected format`;
+    }
+  }
+
+  const comparable = toComparable(value);
+  const minimum = toComparable(min);
+  const maximum = toComparable(max);
+  if (comparable !== undefined && minimum !== undefined && comparable < minimum) {
+    return message ?? `'${text}' is less than the minimum of ${min instanceof Date ? min.toISOString() : min}`;
+  }
+  if (comparable !== undefined && maximum !== undefined && comparable > maximum) {
+    return message ?? `'${text}' is greater than the maximum of ${max instanceof Date ? max.toISOString() : max}`;
+  }
+
+  if (minLength !== undefined && text.length < minLength) {
+    return message ?? `'${text}' is shorter than ${minLength} characters`;
+  }
+  if (maxLength !== undefined && text.length > maxLength) {
+    return message ?? `'${text}' is longer than ${maxLength} characters`;
+  }
+
+  if (validate) {
+    const result = validate(value, row);
+    if (result) {
+      return result;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Runs row validators against a mapped record and normalizes their results into issues
+ */
+export const runRowValidators = (
+  record: Record<string, unknown>,
+  validators: RowValidator[],
+  context: RowValidationContext
+): RowIssue[] =>
+  validators.reduce<RowIssue[]>((issues, validator) => {
+    const result = validator(record, context);
+    if (!result) return issues;
+    const results = Array.isArray(result) ? result : [result];
+    results.forEach((item) => {
+      issues.push(typeof item === 'string' ? { message: item } : item);
+    });
+    return issues;
+  }, []);
+
+/**
+ * Returns true for issues that must be fixed before finishing; a missing severity counts as 'error'
+ */
+export const isBlockingError = (error: MappingError): boolean => (error.severity ?? 'error') === 'error';
@@ -0,0 +1,50 @@
+import { countDistinctValues, getAllowedValues } from './valueMapping';
+import { applyValueMap } from './transforms';
+import { describe, it, expect } from 'vitest';
+import type { MappingOption } from './types';
+
+describe('valueMapping', () => {
+  const country: MappingOption = { label: 'Country', value: 'country', type: 'enum', enum: ['NZ', 'AU'] };
+
+  describe('getAllowedValues', () => {
+    it('should return enum values, true/false for booleans, and nothing for free-form types', () => {
+      expect(getAllowedValues(country)).toEqual(['NZ', 'AU']);
+      expect(getAllowedValues({ label: 'Active', value: 'active', type: 'boolean' })).toEqual([true, false]);
+      expect(getAllowedValues({ label: 'Name', value: 'name', type: 'string' })).toBeUndefined();
+    });
+  });
+
+  describe('applyValueMap', () => {
+    it('should translate values by their trimmed text and leave others untouched', () => {
+      const values = { 'New Zealand': 'NZ', Y: true };
+
+      expect(applyValueMap(' New Zealand ', values)).toBe('NZ');
+      expect(applyValueMap('Y', values)).toBe(true);
+      expect(applyValueMap('Australia', values)).toBe('Australia');
+      expect(applyValueMap('', values)).toBe('');
+      expect(applyValueMap('toString', values)).toBe('toString');
+      expect(applyValueMap('Y', undefined)).toBe('Y');
+    });
+  });
+
+  describe('countDistinctValues', () => {
+    it('should count non-empty values, most frequent first, with the allowed value each becomes', () => {
+      const rows = [
+        { Land: 'New Zealand' },
+        { Land: 'nz' },
+        { Land: 'Aotearoa' },
+        { Land: ' New Zealand' },
+        { Land: '' },
+        { Land: 'Oz' }
+      ];
+      const mapping = { field: 'Land', value: 'country', values: { Aotearoa: 'NZ' } };
+
+      expect(countDistinctValues(rows, mapping, country)).toEqual([
+        { value: 'New Zealand', count: 2 },
+        { value: 'nz', count: 1, target: 'NZ' },
+        { value: 'Aotearoa', count: 1, target: 'NZ' },
+        { value: 'Oz', count: 1 }
+      ]);
+    });
+  });
+});
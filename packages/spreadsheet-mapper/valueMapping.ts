@@ -0,0 +1,48 @@
+import { coerceValue, isEmptyCell } from './fieldTypes';
+import { applyTransforms, applyValueMap, toValueKey } from './transforms';
+import type { DistinctValue, MappedField, MappingOption } from './types';
+
+/**
+ * Returns the values an option accepts: its `enum` list, or true/false for 'boolean'.
+ * Options of other types accept any value and have nothing to map.
+ */
+export const getAllowedValues = (option: MappingOption): (string | number | boolean)[] | undefined => {
+  if (option.type === 'enum') return option.enum ?? [];
+  if (option.type === 'boolean') return [true, false];
+  return undefined;
+};
+
+/**
+ * Lists the distinct non-empty values of a mapped column, most frequent first, with the allowed value each one becomes
+ * @param {Record<string, unknown>[]} rows - Rows keyed by column name, with combined and split values already added.
+ * @param {MappedField} mapping - The mapping whose column is read and whose `values` map is applied.
+ * @param {MappingOption} option - The target option; values it accepts as they are count as mapped.
+ */
+export const countDistinctValues = (
+  rows: Record<string, unknown>[],
+  mapping: MappedField,
+  option: MappingOption
+): DistinctValue[] => {
+  const found = new Map<string, { count: number; row: Record<string, unknown> }>();
+  rows.forEach((row) => {
+    const cellValue = row[mapping.field];
+    if (isEmptyCell(cellValue)) return;
+    const key = toValueKey(cellValue);
+    const entry = found.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      found.set(key, { count: 1, row });
+    }
+  });
+
+  return Array.from(found.entries())
+    .map(([value, { count, row }]) => {
+      const coerced = coerceValue(applyTransforms(applyValueMap(value, mapping.values), option.transform, row), option);
+      const target = coerced.ok ? coerced.value : undefined;
+      return typeof target === 'string' || typeof target === 'number' || typeof target === 'boolean'
+        ? { value, count, target }
+        : { value, count };
+    })
+    .sort((a, b) => b.count - a.count);
+};